@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Microphone selection and recording format negotiation.
+
+export interface CaptureSettings {
+  deviceId: string | null; // null uses the browser's default input
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+// Most preferred first. Opus keeps laps small; the plain container types let
+// the browser choose the codec when it can't be asked for one.
+export const PREFERRED_RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/webm',
+  'audio/ogg',
+  'audio/mp4',
+  'audio/aac',
+];
+
+/**
+ * Picks the first recording format the browser supports. Returns an empty
+ * string when none is, which lets MediaRecorder fall back to its default.
+ */
+export function negotiateRecordingMimeType(
+  isTypeSupported: (mimeType: string) => boolean = type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type),
+): string {
+  return PREFERRED_RECORDING_MIME_TYPES.find(type => isTypeSupported(type)) ?? '';
+}
+
+/** The MIME type without codec parameters, as the API expects it. */
+export function baseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+export function captureConstraints(settings: CaptureSettings, useDevice = true): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = {
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+  if (useDevice && settings.deviceId) constraints.deviceId = { exact: settings.deviceId };
+  return constraints;
+}
+
+/**
+ * The audio inputs to choose from. Browsers only list them once the page has
+ * been given microphone access, so before the first recording this is empty.
+ */
+export async function listAudioInputs(): Promise<Array<{ deviceId: string; label: string }>> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Microphone ${i + 1}` }));
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {downmixToMono, encodeWav, findChunkStarts} from './audioChunking';
+
+const SAMPLE_RATE = 100;
+const options = { maxChunkSeconds: 10, searchWindowSeconds: 3, frameMs: 100 };
+
+// Loud audio with silent stretches at the given [startSeconds, endSeconds) spans.
+function audio(seconds: number, quiet: Array<[number, number]> = []): Float32Array {
+  const samples = new Float32Array(seconds * SAMPLE_RATE).fill(0.5);
+  quiet.forEach(([start, end]) => samples.fill(0, start * SAMPLE_RATE, end * SAMPLE_RATE));
+  return samples;
+}
+
+describe('findChunkStarts', () => {
+  it('keeps short audio in one chunk', () => {
+    expect(findChunkStarts(audio(10), SAMPLE_RATE, options)).toEqual([0]);
+  });
+
+  it('cuts at the quiet spot before the limit', () => {
+    const starts = findChunkStarts(audio(15, [[8, 8.5]]), SAMPLE_RATE, options);
+    expect(starts).toHaveLength(2);
+    expect(starts[1]).toBeGreaterThanOrEqual(8 * SAMPLE_RATE);
+    expect(starts[1]).toBeLessThan(8.5 * SAMPLE_RATE);
+  });
+
+  it('never makes a chunk longer than the limit', () => {
+    const samples = audio(45);
+    const starts = findChunkStarts(samples, SAMPLE_RATE, options);
+    [...starts, samples.length].slice(1).forEach((end, i) => {
+      expect(end - starts[i]).toBeLessThanOrEqual(options.maxChunkSeconds * SAMPLE_RATE);
+      expect(end).toBeGreaterThan(starts[i]);
+    });
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a 16-bit mono PCM header and clamped samples', async () => {
+    const blob = encodeWav(new Float32Array([0, 1, -1, 2]), 16000);
+    const view = new DataView(await blob.arrayBuffer());
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + 4 * 2);
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(view.getUint16(22, true)).toBe(1); // Mono
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true))).toEqual([0, 0x7fff, -0x8000, 0x7fff]);
+  });
+});
+
+describe('downmixToMono', () => {
+  const buffer = (channels: number[][]) => ({
+    numberOfChannels: channels.length,
+    length: channels[0].length,
+    getChannelData: (channel: number) => Float32Array.from(channels[channel]),
+  }) as unknown as AudioBuffer;
+
+  it('averages the channels', () => {
+    expect([...downmixToMono(buffer([[1, 0.5], [0, -0.5]]))]).toEqual([0.5, 0]);
+  });
+
+  it('returns a mono buffer as it is', () => {
+    expect([...downmixToMono(buffer([[0.25, -0.25]]))]).toEqual([0.25, -0.25]);
+  });
+});
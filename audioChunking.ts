@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Splitting of long uploaded audio into chunks small enough to send inline.
+
+export interface ChunkingOptions {
+  maxChunkSeconds: number;
+  searchWindowSeconds: number; // How far back from the limit to look for a quiet spot
+  frameMs: number; // Resolution of the loudness scan
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  maxChunkSeconds: 300,
+  searchWindowSeconds: 30,
+  frameMs: 50,
+};
+
+/**
+ * Averages all channels of the buffer into a single mono track. A mono
+ * buffer's own channel data is returned as is rather than copied.
+ */
+export function downmixToMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+function frameRms(samples: Float32Array, start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+}
+
+/**
+ * Returns the sample offsets where each chunk starts. Chunks are at most
+ * maxChunkSeconds long and end at the quietest frame found in the search
+ * window before that limit, so cuts tend to fall between words.
+ */
+export function findChunkStarts(samples: Float32Array, sampleRate: number, options = DEFAULT_CHUNKING_OPTIONS): number[] {
+  const maxLength = Math.floor(options.maxChunkSeconds * sampleRate);
+  const window = Math.min(maxLength - 1, Math.floor(options.searchWindowSeconds * sampleRate));
+  const frame = Math.max(1, Math.floor(options.frameMs / 1000 * sampleRate));
+
+  const starts = [0];
+  let start = 0;
+  while (samples.length - start > maxLength) {
+    const limit = start + maxLength;
+    let best = limit;
+    let bestLevel = Infinity;
+    for (let frameStart = limit - window; frameStart + frame <= limit; frameStart += frame) {
+      const level = frameRms(samples, frameStart, frameStart + frame);
+      if (level < bestLevel) {
+        bestLevel = level;
+        best = frameStart + Math.floor(frame / 2);
+      }
+    }
+    starts.push(best);
+    start = best;
+  }
+  return starts;
+}
+
+/** Encodes mono samples as a 16-bit PCM WAV file. */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Size of the fmt chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
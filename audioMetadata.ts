@@ -0,0 +1,385 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Reads format details and embedded recording dates from the headers of
+// common audio containers (WAV, MP3, FLAC, Ogg, MP4/M4A and WebM) without
+// decoding any audio.
+
+export interface AudioFileInfo {
+  codec: string | null;
+  sampleRate: number | null; // Of the original file, in Hz
+  channels: number | null;
+  recordedAt: number | null; // Embedded recording date, if the file has one
+}
+
+const HEAD_BYTES = 256 * 1024;
+const MAX_BOX_BYTES = 8 * 1024 * 1024;
+const MP4_EPOCH_OFFSET_S = 2082844800; // Seconds from 1904-01-01 to 1970-01-01
+const MATROSKA_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+const MP4_CODECS: Record<string, string> = {
+  'mp4a': 'AAC', 'alac': 'ALAC', 'Opus': 'Opus', 'fLaC': 'FLAC', 'ac-3': 'AC-3', 'ec-3': 'E-AC-3', '.mp3': 'MP3',
+};
+const MATROSKA_CODECS: Record<string, string> = {
+  'A_OPUS': 'Opus', 'A_VORBIS': 'Vorbis', 'A_AAC': 'AAC', 'A_MPEG/L3': 'MP3', 'A_FLAC': 'FLAC',
+  'A_PCM/INT/LIT': 'PCM', 'A_PCM/FLOAT/IEEE': 'PCM (float)',
+};
+const WAV_FORMATS: Record<number, string> = {
+  0x0001: 'PCM', 0x0003: 'PCM (float)', 0x0006: 'A-law', 0x0007: 'µ-law', 0x0011: 'IMA ADPCM', 0x0055: 'MP3',
+};
+const MIME_CODECS: Record<string, string> = {
+  'opus': 'Opus', 'vorbis': 'Vorbis', 'mp4a': 'AAC', 'aac': 'AAC', 'flac': 'FLAC', 'pcm': 'PCM',
+  'audio/mpeg': 'MP3', 'audio/mp3': 'MP3', 'audio/wav': 'PCM', 'audio/x-wav': 'PCM', 'audio/wave': 'PCM',
+  'audio/flac': 'FLAC', 'audio/x-flac': 'FLAC', 'audio/aac': 'AAC', 'audio/mp4': 'AAC', 'audio/x-m4a': 'AAC',
+  'audio/ogg': 'Vorbis', 'audio/opus': 'Opus', 'audio/webm': 'Opus',
+};
+
+async function readBytes(file: Blob, offset: number, length: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function indexOfAscii(bytes: Uint8Array, text: string, from = 0): number {
+  outer: for (let i = from; i <= bytes.length - text.length; i++) {
+    for (let j = 0; j < text.length; j++) {
+      if (bytes[i + j] !== text.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Parses the date formats found in audio tags ("2024-05-01", "2024-05-01T09:30:00",
+ * "2024:05:01 09:30:00", ...). Dates without a time zone are read as local time.
+ * Values without at least a day are too vague to count as a recording date.
+ */
+export function parseTagDate(value: string): number | null {
+  const match = value.trim().match(/^(\d{4})[-:/.](\d{2})[-:/.](\d{2})(?:[T ](\d{2})[:.-](\d{2})(?:[:.-](\d{2}))?(Z|[+-]\d{2}:?\d{2})?)?/);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0', zone] = match;
+  let timestamp: number;
+  if (zone) {
+    timestamp = Date.parse(`${year}-${month}-${day}T${hour.padStart(2, '0')}:${minute}:${second.padStart(2, '0')}${zone.length === 5 ? `${zone.slice(0, 3)}:${zone.slice(3)}` : zone}`);
+  } else {
+    timestamp = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)).getTime();
+  }
+  return isNaN(timestamp) || Number(year) < 1980 ? null : timestamp;
+}
+
+/** Maps a MIME type such as "audio/webm;codecs=opus" to a codec name. */
+export function codecFromMimeType(mimeType: string): string | null {
+  const [type, ...params] = mimeType.toLowerCase().split(';').map(part => part.trim());
+  const codecs = params.find(param => param.startsWith('codecs='))?.slice(7).replace(/"/g, '');
+  if (codecs) {
+    const codec = codecs.split(',')[0].split('.')[0];
+    return MIME_CODECS[codec] ?? codec;
+  }
+  return MIME_CODECS[type] ?? null;
+}
+
+/** Short description such as "Opus · 48 kHz · Stereo", or null if nothing is known. */
+export function formatAudioFormat(info: { codec: string | null; sampleRate: number | null; channels: number | null }): string | null {
+  const parts: string[] = [];
+  if (info.codec) parts.push(info.codec);
+  if (info.sampleRate) parts.push(`${parseFloat((info.sampleRate / 1000).toFixed(1))} kHz`);
+  if (info.channels) parts.push(info.channels === 1 ? 'Mono' : info.channels === 2 ? 'Stereo' : `${info.channels} channels`);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+// --- WAV ---
+
+async function readWav(file: Blob, info: AudioFileInfo): Promise<void> {
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 8);
+    const id = ascii(header, 0, 4);
+    const size = new DataView(header.buffer).getUint32(4, true);
+    const bodyOffset = offset + 8;
+    if (id === 'fmt ' || id === 'bext' || id === 'LIST') {
+      const body = await readBytes(file, bodyOffset, Math.min(size, 64 * 1024));
+      const view = new DataView(body.buffer);
+      if (id === 'fmt ' && body.length >= 16) {
+        let format = view.getUint16(0, true);
+        if (format === 0xfffe && body.length >= 26) format = view.getUint16(24, true); // WAVE_FORMAT_EXTENSIBLE
+        info.channels = view.getUint16(2, true);
+        info.sampleRate = view.getUint32(4, true);
+        const bits = view.getUint16(14, true);
+        const name = WAV_FORMATS[format] ?? `WAV format 0x${format.toString(16)}`;
+        info.codec = name.startsWith('PCM') && bits ? `${name} ${bits}-bit` : name;
+      } else if (id === 'bext' && body.length >= 338) {
+        // Broadcast WAV: OriginationDate "yyyy-mm-dd" and OriginationTime "hh:mm:ss".
+        info.recordedAt ??= parseTagDate(`${ascii(body, 320, 10)} ${ascii(body, 330, 8)}`);
+      } else if (id === 'LIST' && ascii(body, 0, 4) === 'INFO') {
+        for (let i = 4; i + 8 <= body.length;) {
+          const tag = ascii(body, i, 4);
+          const length = view.getUint32(i + 4, true);
+          if (tag === 'ICRD') {
+            info.recordedAt ??= parseTagDate(ascii(body, i + 8, length).replace(/\0+$/, ''));
+          }
+          i += 8 + length + (length % 2);
+        }
+      }
+    }
+    offset = bodyOffset + size + (size % 2); // Chunks are padded to an even length
+  }
+}
+
+// --- MP3 ---
+
+function decodeId3Text(bytes: Uint8Array): string {
+  const encoding = bytes[0];
+  const data = bytes.subarray(1);
+  const label = encoding === 1 ? 'utf-16' : encoding === 2 ? 'utf-16be' : encoding === 3 ? 'utf-8' : 'latin1';
+  return new TextDecoder(label).decode(data).replace(/\0+$/, '');
+}
+
+function readMp3(head: Uint8Array, info: AudioFileInfo): void {
+  let offset = 0;
+  if (ascii(head, 0, 3) === 'ID3') {
+    const version = head[3];
+    const syncsafe = (i: number) => (head[i] << 21) | (head[i + 1] << 14) | (head[i + 2] << 7) | head[i + 3];
+    const tagSize = syncsafe(6);
+    const frames: Record<string, string> = {};
+    for (let i = 10; i + 10 <= Math.min(head.length, 10 + tagSize);) {
+      const id = ascii(head, i, 4);
+      if (!/^[A-Z0-9]{4}$/.test(id)) break; // Padding
+      const size = version >= 4 ? syncsafe(i + 4) : new DataView(head.buffer).getUint32(i + 4);
+      if (id.startsWith('T')) frames[id] = decodeId3Text(head.subarray(i + 10, i + 10 + size));
+      i += 10 + size;
+    }
+    const date = frames.TDRC || frames.TDOR ||
+      (frames.TYER && frames.TDAT ? `${frames.TYER}-${frames.TDAT.slice(2, 4)}-${frames.TDAT.slice(0, 2)}` +
+        (frames.TIME ? `T${frames.TIME.slice(0, 2)}:${frames.TIME.slice(2, 4)}` : '') : '');
+    if (date) info.recordedAt = parseTagDate(date);
+    offset = 10 + tagSize;
+  }
+
+  // First MPEG audio frame header: 11 sync bits, then version, layer, rate and mode.
+  for (let i = offset; i + 4 <= head.length; i++) {
+    if (head[i] !== 0xff || (head[i + 1] & 0xe0) !== 0xe0) continue;
+    const versionBits = (head[i + 1] >> 3) & 3;
+    const rateIndex = (head[i + 2] >> 2) & 3;
+    if (versionBits === 1 || rateIndex === 3) continue;
+    const baseRate = [44100, 48000, 32000][rateIndex];
+    info.sampleRate = versionBits === 3 ? baseRate : versionBits === 2 ? baseRate / 2 : baseRate / 4;
+    info.channels = (head[i + 3] >> 6) === 3 ? 1 : 2;
+    info.codec = 'MP3';
+    return;
+  }
+}
+
+// --- FLAC and Ogg ---
+
+function readVorbisComments(bytes: Uint8Array, offset: number, info: AudioFileInfo): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  if (offset + 4 > bytes.length) return;
+  offset += 4 + view.getUint32(offset, true); // Vendor string
+  if (offset + 4 > bytes.length) return;
+  const count = view.getUint32(offset, true);
+  offset += 4;
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = view.getUint32(offset, true);
+    const comment = decoder.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    const [key, ...value] = comment.split('=');
+    if (['DATE', 'CREATION_TIME', 'RECORDED'].includes(key.toUpperCase())) {
+      info.recordedAt ??= parseTagDate(value.join('='));
+    }
+    offset += 4 + length;
+  }
+}
+
+function readFlac(head: Uint8Array, info: AudioFileInfo): void {
+  info.codec = 'FLAC';
+  for (let offset = 4; offset + 4 <= head.length;) {
+    const type = head[offset] & 0x7f;
+    const isLast = (head[offset] & 0x80) !== 0;
+    const length = (head[offset + 1] << 16) | (head[offset + 2] << 8) | head[offset + 3];
+    const data = offset + 4;
+    if (type === 0 && data + 18 <= head.length) { // STREAMINFO
+      info.sampleRate = (head[data + 10] << 12) | (head[data + 11] << 4) | (head[data + 12] >> 4);
+      info.channels = ((head[data + 12] >> 1) & 7) + 1;
+    } else if (type === 4) { // VORBIS_COMMENT
+      readVorbisComments(head.subarray(0, data + length), data, info);
+    }
+    if (isLast) break;
+    offset = data + length;
+  }
+}
+
+function readOgg(head: Uint8Array, info: AudioFileInfo): void {
+  const view = new DataView(head.buffer);
+  const opus = indexOfAscii(head, 'OpusHead');
+  const vorbis = indexOfAscii(head, '\x01vorbis');
+  if (opus !== -1 && opus + 16 <= head.length) {
+    info.codec = 'Opus';
+    info.channels = head[opus + 9];
+    info.sampleRate = view.getUint32(opus + 12, true) || 48000;
+    const tags = indexOfAscii(head, 'OpusTags', opus);
+    if (tags !== -1) readVorbisComments(head, tags + 8, info);
+  } else if (vorbis !== -1 && vorbis + 16 <= head.length) {
+    info.codec = 'Vorbis';
+    info.channels = head[vorbis + 11];
+    info.sampleRate = view.getUint32(vorbis + 12, true);
+    const comments = indexOfAscii(head, '\x03vorbis', vorbis);
+    if (comments !== -1) readVorbisComments(head, comments + 7, info);
+  }
+}
+
+// --- MP4 / M4A ---
+
+interface Mp4Box { type: string; start: number; end: number; } // start is where the body begins
+
+function mp4Boxes(bytes: Uint8Array, start: number, end: number): Mp4Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + headerSize, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function readMp4Movie(moov: Uint8Array, info: AudioFileInfo): void {
+  const view = new DataView(moov.buffer, moov.byteOffset);
+  const visit = (start: number, end: number) => {
+    for (const box of mp4Boxes(moov, start, end)) {
+      if (box.type === 'mvhd') {
+        const version = moov[box.start];
+        const created = version === 1 ? Number(view.getBigUint64(box.start + 4)) : view.getUint32(box.start + 4);
+        if (created > MP4_EPOCH_OFFSET_S) info.recordedAt ??= (created - MP4_EPOCH_OFFSET_S) * 1000;
+      } else if (box.type === 'stsd' && !info.codec) {
+        // Full box header (4) and entry count (4), then the first sample entry.
+        const entry = box.start + 8;
+        const format = ascii(moov, entry + 4, 4);
+        if (!MP4_CODECS[format]) continue; // Not an audio track
+        info.codec = MP4_CODECS[format];
+        // Sample entry header (8), reserved (6), data reference index (2), reserved (8).
+        info.channels = view.getUint16(entry + 24);
+        info.sampleRate = view.getUint32(entry + 32) >>> 16; // 16.16 fixed point
+      } else if (['trak', 'mdia', 'minf', 'stbl'].includes(box.type)) {
+        visit(box.start, box.end);
+      }
+    }
+  };
+  visit(0, moov.length);
+}
+
+async function readMp4(file: Blob, info: AudioFileInfo): Promise<void> {
+  // Top-level boxes are walked by reading their headers, as the movie box
+  // is often at the very end of the file.
+  for (let offset = 0; offset + 8 <= file.size;) {
+    const header = await readBytes(file, offset, 16);
+    const view = new DataView(header.buffer);
+    let size = view.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) return;
+    if (ascii(header, 4, 4) === 'moov') {
+      readMp4Movie(await readBytes(file, offset + headerSize, Math.min(size - headerSize, MAX_BOX_BYTES)), info);
+      return;
+    }
+    offset += size;
+  }
+}
+
+// --- WebM / Matroska ---
+
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23; // Leading zeros within the byte, plus one
+  if (offset + length > bytes.length) return null;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readMatroska(head: Uint8Array, info: AudioFileInfo): void {
+  const view = new DataView(head.buffer);
+  const CONTAINERS = [0x18538067, 0x1549a966, 0x1654ae6b, 0xae, 0xe1]; // Segment, Info, Tracks, TrackEntry, Audio
+  const CLUSTER = 0x1f43b675;
+  const visit = (start: number, end: number): boolean => {
+    for (let offset = start; offset < end;) {
+      const id = readVint(head, offset, true);
+      if (!id) return false;
+      const size = readVint(head, offset + id.length, false);
+      if (!size) return false;
+      const body = offset + id.length + size.length;
+      const bodyEnd = size.unknown ? end : Math.min(end, body + size.value);
+      if (id.value === CLUSTER) return false; // Audio data starts; the headers are done
+      if (CONTAINERS.includes(id.value)) {
+        if (!visit(body, bodyEnd)) return false;
+      } else if (id.value === 0x86 && !info.codec) { // CodecID
+        const codecId = ascii(head, body, size.value);
+        info.codec = MATROSKA_CODECS[codecId] ?? codecId.replace(/^A_/, '');
+      } else if (id.value === 0xb5 && !info.sampleRate) { // SamplingFrequency
+        info.sampleRate = Math.round(size.value === 4 ? view.getFloat32(body) : view.getFloat64(body));
+      } else if (id.value === 0x9f && !info.channels) { // Channels
+        info.channels = head[body + size.value - 1];
+      } else if (id.value === 0x4461 && size.value === 8) { // DateUTC, ns since 2001-01-01
+        info.recordedAt ??= MATROSKA_EPOCH_MS + Number(view.getBigInt64(body) / 1000000n);
+      }
+      offset = body + size.value;
+      if (size.unknown) return true;
+    }
+    return true;
+  };
+  visit(0, head.length);
+}
+
+/**
+ * Reads what the file's headers say about its format and recording date.
+ * Anything that cannot be determined is left null; this never throws.
+ */
+export async function readAudioFileInfo(file: Blob): Promise<AudioFileInfo> {
+  const info: AudioFileInfo = { codec: null, sampleRate: null, channels: null, recordedAt: null };
+  try {
+    const head = await readBytes(file, 0, HEAD_BYTES);
+    if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WAVE') {
+      await readWav(file, info);
+    } else if (ascii(head, 0, 4) === 'fLaC') {
+      readFlac(head, info);
+    } else if (ascii(head, 0, 4) === 'OggS') {
+      readOgg(head, info);
+    } else if (ascii(head, 4, 4) === 'ftyp') {
+      await readMp4(file, info);
+    } else if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+      readMatroska(head, info);
+    } else if (ascii(head, 0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) {
+      readMp3(head, info);
+    }
+  } catch (error) {
+    console.warn('Could not read audio file metadata:', error);
+  }
+  info.codec ??= codecFromMimeType(file.type);
+  if (info.recordedAt !== null && (info.recordedAt > Date.now() + 86400000 || info.recordedAt < Date.UTC(1980, 0, 1))) {
+    info.recordedAt = null; // Clearly bogus, e.g. an unset clock
+  }
+  return info;
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {ModeID, Note} from './types';
+
+export interface HistoryFilter {
+  query: string;
+  modeId: ModeID | '';
+  fromDate: string; // yyyy-mm-dd, inclusive
+  toDate: string; // yyyy-mm-dd, inclusive
+  maxCost: number | null;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  modeId: '',
+  fromDate: '',
+  toDate: '',
+  maxCost: null,
+};
+
+// Day key (yyyy-mm-dd) of a timestamp as seen in the given timezone.
+export function dayKey(timestamp: number, timeZone: string): string {
+  return new Date(timestamp).toLocaleDateString('en-CA', { timeZone });
+}
+
+// Notes are filtered and grouped by their day in the zone each one was
+// recorded in, which `timeZoneOf` gives.
+export function filterNotes(notes: Note[], filter: HistoryFilter, timeZoneOf: (note: Note) => string): Note[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return notes.filter(note => {
+    if (filter.modeId && note.modeId !== filter.modeId) return false;
+    if (filter.maxCost !== null && note.cost > filter.maxCost) return false;
+
+    if (filter.fromDate || filter.toDate) {
+      const day = dayKey(note.timestamp, timeZoneOf(note));
+      if (filter.fromDate && day < filter.fromDate) return false;
+      if (filter.toDate && day > filter.toDate) return false;
+    }
+
+    if (terms.length > 0) {
+      const renditions = note.renditions.map(rendition => rendition.markdown).join('\n');
+      const haystack = `${note.rawTranscription}\n${note.polishedNote}\n${renditions}`.toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) return false;
+    }
+    return true;
+  });
+}
+
+// Groups notes (already sorted newest first) into consecutive day buckets.
+export function groupNotesByDay(notes: Note[], timeZoneOf: (note: Note) => string): Array<{ day: string; notes: Note[] }> {
+  const groups: Array<{ day: string; notes: Note[] }> = [];
+  for (const note of notes) {
+    const day = dayKey(note.timestamp, timeZoneOf(note));
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) {
+      last.notes.push(note);
+    } else {
+      groups.push({ day, notes: [note] });
+    }
+  }
+  return groups;
+}
+
+// Short, single-line preview of a note for list entries.
+export function notePreview(note: Note, maxLength = 80): string {
+  const source = note.polishedNote || note.rawTranscription;
+  const text = source
+    .replace(/^#+\s*/gm, '')
+    .replace(/[*_`>\[\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Title of a note: its first markdown heading, or the opening words otherwise.
+export function noteTitle(note: Note): string {
+  const heading = note.polishedNote.match(/^#{1,3}\s+(.+)$/m);
+  if (heading) return heading[1].replace(/[*_`]/g, '').trim();
+  return notePreview(note, 40) || 'Untitled note';
+}
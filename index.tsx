@@ -4,21 +4,39 @@
 */
 /* tslint:disable */
 
-import {GoogleGenAI} from '@google/genai';
+import {GenerateContentResponse, GoogleGenAI} from '@google/genai';
 import {marked} from 'marked';
+import {baseMimeType, CaptureSettings, captureConstraints, DEFAULT_CAPTURE_SETTINGS, listAudioInputs, negotiateRecordingMimeType} from './audioCapture';
+import {DEFAULT_CHUNKING_OPTIONS, downmixToMono, encodeWav, findChunkStarts} from './audioChunking';
+import {codecFromMimeType, formatAudioFormat, readAudioFileInfo} from './audioMetadata';
+import {EMPTY_HISTORY_FILTER, filterNotes, groupNotesByDay, HistoryFilter, notePreview, noteTitle} from './history';
+import {DEFAULT_INPUT_LEVEL_OPTIONS, InputLevelMonitor, levelToMeter, timeDomainPeak} from './inputLevel';
+import {extractLanguages, formatLanguages, languageInstruction, languageName, LANGUAGES, noteLanguages} from './languages';
+import {DEFAULT_LOCATION_SETTINGS, formatCoordinates, LocationMode, LocationSettings, locateNote, placeToLocation, SavedPlace, upsertPlace} from './location';
+import {DEFAULT_FILENAME_PATTERN, exportFileName, MarkdownExportContext, MarkdownExportSettings, noteToMarkdown} from './markdownExport';
+import {createModeId, loadUserModes, ModeDefinition, parseModesFile, saveUserModes, serializeModes, uniqueModeName} from './modeLibrary';
+import {NoteStore, RecordingChunk} from './noteStore';
+import {PARTIAL_PLACEHOLDER_PATTERN, resolveTemplate, TEMPLATE_VARIABLES, TemplateValues} from './promptTemplate';
+import {withRetry} from './retry';
+import {buildCues, toSrt, toWebVtt} from './subtitles';
+import {TaskQueue} from './taskQueue';
+import {addRecentTimeZone, browserTimeZone, isValidTimeZone, searchTimeZones, supportedTimeZones, timeZoneLabel, timeZoneOffset} from './timezones';
+import {sameStructure, translationPrompt} from './translation';
+import {LAP_HEADER_PATTERN, parseSessionTranscript, replaceLapText, TranscriptLap, TranscriptSegment} from './transcript';
+import type {AutoLapReason, InputLevelEvent, InputLevelIssue, Mode, ModeID, Note, NoteLap, NoteLocation, RecordingSegment, Rendition, UploadQueueItem, UploadStatus} from './types';
+import {AutoLapSettings, DEFAULT_AUTO_LAP_SETTINGS, timeDomainRms, VoiceActivityDetector} from './voiceActivity';
+import {createZip} from './zip';
 
 const MODEL_NAME = 'gemini-2.5-flash';
 const COST_PER_1K_PROMPT_TOKENS = 0.000125; // gemini-2.5-flash input
 const COST_PER_1K_COMPLETION_TOKENS = 0.000250; // gemini-2.5-flash output
-
-// Mode definitions
-type ModeID = 'journal' | 'action' | 'technical' | 'learning' | 'custom';
-
-interface Mode {
-  id: ModeID;
-  name: string;
-  instructions: string;
-}
+const MAX_CONCURRENT_LAP_TRANSCRIPTIONS = 2;
+const RECORDING_CHUNK_INTERVAL_MS = 5000; // How often audio is flushed to storage while recording
+const VOICE_ACTIVITY_INTERVAL_MS = 100;
+const INPUT_LEVEL_INTERVAL_MS = 100;
+const UPLOAD_SAMPLE_RATE = 16000; // Uploads are decoded to 16 kHz mono, plenty for speech
+const MAX_INLINE_UPLOAD_BYTES = 15 * 1024 * 1024; // Stays under the request limit once base64-encoded
+const FAILED_LAP_TEXT = '[Transcription failed. It will be retried when the connection is back, or use Retry on this lap.]';
 
 const MODES: Record<ModeID, Mode> = {
   journal: {
@@ -91,25 +109,10 @@ List any questions or topics that remained unclear and require further review.
 ## 4. Connections
 Note how this topic connects to other subjects or your personal knowledge.`,
   },
-  custom: {
-    id: 'custom',
-    name: 'Custom Instructions',
-    instructions: '', // This will be dynamically updated from localStorage.
-  },
 };
 
-interface Note {
-  id: string;
-  rawTranscription: string;
-  polishedNote: string;
-  timestamp: number;
-  duration: number; // in ms
-  audioSize: number; // in bytes
-  modeId: ModeID;
-  promptTokens: number;
-  completionTokens: number;
-  cost: number;
-}
+// The user's own modes are added to MODES next to the built-in templates.
+for (const key in MODES) MODES[key].builtIn = true;
 
 class VoiceNotesApp {
   private genAI: any;
@@ -120,24 +123,50 @@ class VoiceNotesApp {
   private themeToggleButton: HTMLButtonElement;
   private copyButton: HTMLButtonElement;
   private copyMetaButton: HTMLButtonElement;
+  private exportMarkdownButton: HTMLButtonElement;
+  private recordingSettingsButton: HTMLButtonElement;
   private copyRawButton: HTMLButtonElement;
+  private downloadSrtButton: HTMLButtonElement;
+  private downloadVttButton: HTMLButtonElement;
   private themeToggleIcon: HTMLElement;
   private editCustomPromptButton: HTMLButtonElement;
-  private audioChunks: Blob[] = [];
   
   // Recording State
   private isRecording = false;
   private isPaused = false;
   private isProcessing = false;
-  private stopReason: 'stop' | 'lap' | null = null;
+  private recordingSegment: RecordingSegment | null = null;
+  private segmentsStopped: Promise<void> = Promise.resolve(); // Laps split off but still stopping
   private lapCount = 0;
   private allRawLapText = '';
+  private lapQueue = new TaskQueue(MAX_CONCURRENT_LAP_TRANSCRIPTIONS);
+  private storedNoteWrites = new TaskQueue(1); // Read-modify-write of notes that aren't on screen
+  private retryingLaps = new Set<string>(); // `${noteId}:${lapIndex}` currently being re-transcribed
+  private isDrainingTranscriptionQueue = false;
   private totalDurationMs = 0;
+  private lapStartDurationMs = 0;
+  private voiceActivity: VoiceActivityDetector | null = null;
+  private voiceActivityIntervalId: number | null = null;
+  private inputLevel: InputLevelMonitor | null = null;
+  private inputLevelIntervalId: number | null = null;
 
   private currentNote: Note | null = null;
+  private noteStore = new NoteStore();
   private stream: MediaStream | null = null;
   private currentModeId: ModeID = 'journal';
 
+  // History panel
+  private historyButton: HTMLButtonElement;
+  private historyPanel: HTMLElement;
+  private closeHistoryButton: HTMLButtonElement;
+  private historySearchInput: HTMLInputElement;
+  private historyModeFilter: HTMLSelectElement;
+  private historyFromDate: HTMLInputElement;
+  private historyToDate: HTMLInputElement;
+  private historyMaxCost: HTMLInputElement;
+  private historyList: HTMLDivElement;
+  private historyNotes: Note[] = [];
+
   // UI Elements for Mode Selector
   private modeSelectorContainer: HTMLDivElement;
   private modeSelectorButton: HTMLButtonElement;
@@ -150,20 +179,118 @@ class VoiceNotesApp {
   private timezoneSelectorButton: HTMLButtonElement;
   private currentTimezoneNameSpan: HTMLSpanElement;
   private timezoneList: HTMLDivElement;
-  private currentTimezone: string = 'Europe/Warsaw';
+  private timezoneSearchInput: HTMLInputElement;
+  private timezoneOptions: HTMLDivElement;
+  private currentTimezone: string = browserTimeZone();
+  private followBrowserTimezone = true; // No zone picked, so use the browser's
+  private allTimezones: string[] = [];
+  private timezoneOffsets = new Map<string, string>(); // Cached while the list is open
+  private recentTimezones: string[] = [];
+  private favoriteTimezones: string[] = [];
   
   // Custom Prompt Modal
   private customPromptModal: HTMLDivElement;
+  private customPromptTitle: HTMLHeadingElement;
+  private customModeNameInput: HTMLInputElement;
   private customPromptTextarea: HTMLTextAreaElement;
   private saveCustomPromptButton: HTMLButtonElement;
   private cancelCustomPromptButton: HTMLButtonElement;
-  private customPromptInstructions: string = '';
+  private deleteCustomModeButton: HTMLButtonElement;
+  private duplicateCustomModeButton: HTMLButtonElement;
+  private exportCustomModeButton: HTMLButtonElement;
+  private skipImportModeButton: HTMLButtonElement;
+  private replaceImportModeButton: HTMLButtonElement;
+  private customPromptNotice: HTMLParagraphElement;
+  private templateSuggestions: HTMLDivElement;
+  private customPromptPreview: HTMLPreElement;
+  private templateSuggestionIndex = 0;
+  private modeImportInput: HTMLInputElement;
+  private userModes: Mode[] = [];
+  private customPromptModalState: 'edit' | 'new' | 'import' = 'edit';
+  private editingModeId: ModeID | null = null; // null while creating a new mode
+  private pendingModeImports: ModeDefinition[] = [];
+  private modeImportTotal = 0;
   
+  // Batch uploads
+  private uploadQueuePanel: HTMLDivElement;
+  private uploadQueueSummary: HTMLSpanElement;
+  private uploadQueueList: HTMLUListElement;
+  private uploadQueueToggleButton: HTMLButtonElement;
+  private clearUploadQueueButton: HTMLButtonElement;
+  private closeUploadQueueButton: HTMLButtonElement;
+  private uploadQueue: UploadQueueItem[] = [];
+  private isUploadQueueRunning = false;
+  private isUploadQueueStopped = false;
+  private uploadAbortController: AbortController | null = null; // For the file being processed
+
+  // Recording settings
+  private recordingSettingsModal: HTMLDivElement;
+  private micDeviceSelect: HTMLSelectElement;
+  private echoCancellationCheckbox: HTMLInputElement;
+  private noiseSuppressionCheckbox: HTMLInputElement;
+  private autoGainCheckbox: HTMLInputElement;
+  private captureFormatHint: HTMLParagraphElement;
+  private spokenLanguageOptions: HTMLDivElement;
+  private spokenLanguages: string[] = []; // Empty means detect automatically
+  private captureSettings: CaptureSettings = { ...DEFAULT_CAPTURE_SETTINGS };
+  private recordingMimeType = negotiateRecordingMimeType();
+  private autoLapEnabledCheckbox: HTMLInputElement;
+  private autoLapMinInput: HTMLInputElement;
+  private autoLapMaxInput: HTMLInputElement;
+  private autoLapPauseInput: HTMLInputElement;
+  private autoStopSilenceInput: HTMLInputElement;
+  private silenceThresholdInput: HTMLInputElement;
+  private silenceThresholdValue: HTMLSpanElement;
+  private cancelRecordingSettingsButton: HTMLButtonElement;
+  private saveRecordingSettingsButton: HTMLButtonElement;
+  private autoLapSettings: AutoLapSettings = { ...DEFAULT_AUTO_LAP_SETTINGS };
+
+  // Location
+  private locationModal: HTMLDivElement;
+  private locationNameInput: HTMLInputElement;
+  private savedPlacesOptions: HTMLDataListElement;
+  private locateButton: HTMLButtonElement;
+  private savePlaceButton: HTMLButtonElement;
+  private locationStatus: HTMLParagraphElement;
+  private savedPlacesList: HTMLUListElement;
+  private locationModeSelect: HTMLSelectElement;
+  private defaultPlaceField: HTMLLabelElement;
+  private defaultPlaceSelect: HTMLSelectElement;
+  private cancelLocationButton: HTMLButtonElement;
+  private saveLocationButton: HTMLButtonElement;
+  private locationSettings: LocationSettings = { ...DEFAULT_LOCATION_SETTINGS };
+  private savedPlaces: SavedPlace[] = [];
+  private locatedCoordinates: { latitude: number; longitude: number } | null = null; // From "Use current position"
+
+  // Session recovery
+  private recoveryModal: HTMLDivElement;
+  private recoveryDescription: HTMLParagraphElement;
+  private discardRecoveryButton: HTMLButtonElement;
+  private laterRecoveryButton: HTMLButtonElement;
+  private recoverSessionButton: HTMLButtonElement;
+  private pendingRecoveries: RecordingChunk[][] = []; // Chunks of each unfinished session
+
+  // Markdown export
+  private markdownExportModal: HTMLDivElement;
+  private exportIncludeRawCheckbox: HTMLInputElement;
+  private exportFilenamePatternInput: HTMLInputElement;
+  private exportFilenamePreview: HTMLSpanElement;
+  private confirmMarkdownExportButton: HTMLButtonElement;
+  private cancelMarkdownExportButton: HTMLButtonElement;
+  private exportHistoryZipButton: HTMLButtonElement;
+  private markdownExportSettings: MarkdownExportSettings = {
+    includeRawTranscription: false,
+    filenamePattern: DEFAULT_FILENAME_PATTERN,
+  };
+
   // Metadata display
   private noteMetadata: HTMLDivElement;
   private metaDatetime: HTMLDivElement;
   private metaDuration: HTMLDivElement;
   private metaSize: HTMLDivElement;
+  private metaFormat: HTMLDivElement;
+  private metaLocation: HTMLDivElement;
+  private metaLanguage: HTMLDivElement;
   private metaMode: HTMLDivElement;
   private metaTokens: HTMLDivElement;
   private metaCost: HTMLDivElement;
@@ -175,6 +302,9 @@ class VoiceNotesApp {
   private liveWaveformCanvas: HTMLCanvasElement;
   private liveWaveformCtx: CanvasRenderingContext2D | null = null;
   private liveRecordingTimerDisplay: HTMLDivElement;
+  private inputLevelRms: HTMLDivElement;
+  private inputLevelPeak: HTMLDivElement;
+  private inputLevelWarning: HTMLDivElement;
 
   // Recording Controls
   private stopButton: HTMLButtonElement;
@@ -186,6 +316,33 @@ class VoiceNotesApp {
   private polishedNote: HTMLDivElement;
   private recordingStatus: HTMLDivElement;
 
+  // Renditions
+  private cancelPolishButton: HTMLButtonElement;
+  private polishAbortController: AbortController | null = null;
+  private renditionBar: HTMLDivElement;
+  private renditionTabs: HTMLDivElement;
+  private repolishContainer: HTMLDivElement;
+  private repolishButton: HTMLButtonElement;
+  private repolishModeList: HTMLDivElement;
+  private translateContainer: HTMLDivElement;
+  private translateButton: HTMLButtonElement;
+  private translateLanguageList: HTMLDivElement;
+  private translationBar: HTMLDivElement;
+  private translationLanguages: string[] = []; // Translated into automatically after polishing
+  private compareModesButton: HTMLButtonElement;
+  private compareModal: HTMLDivElement;
+  private compareModeOptions: HTMLDivElement;
+  private compareColumns: HTMLDivElement;
+  private runCompareButton: HTMLButtonElement;
+  private closeCompareButton: HTMLButtonElement;
+
+  // Lap audio playback
+  private audioPlayerBar: HTMLDivElement;
+  private lapAudioTabs: HTMLDivElement;
+  private lapAudioPlayer: HTMLAudioElement;
+  private lapAudioUrls = new Map<number, string>();
+  private currentPlaybackLap: number | null = null;
+
   // Tab UI
   private tabButtons: NodeListOf<HTMLButtonElement>;
   private tabIndicator: HTMLDivElement;
@@ -220,10 +377,25 @@ class VoiceNotesApp {
     this.themeToggleButton = document.getElementById('themeToggleButton') as HTMLButtonElement;
     this.copyButton = document.getElementById('copyButton') as HTMLButtonElement;
     this.copyMetaButton = document.getElementById('copyMetaButton') as HTMLButtonElement;
+    this.exportMarkdownButton = document.getElementById('exportMarkdownButton') as HTMLButtonElement;
+    this.recordingSettingsButton = document.getElementById('recordingSettingsButton') as HTMLButtonElement;
     this.copyRawButton = document.getElementById('copyRawButton') as HTMLButtonElement;
+    this.downloadSrtButton = document.getElementById('downloadSrtButton') as HTMLButtonElement;
+    this.downloadVttButton = document.getElementById('downloadVttButton') as HTMLButtonElement;
     this.themeToggleIcon = this.themeToggleButton.querySelector('i') as HTMLElement;
     this.editCustomPromptButton = document.getElementById('editCustomPromptButton') as HTMLButtonElement;
 
+    // History panel
+    this.historyButton = document.getElementById('historyButton') as HTMLButtonElement;
+    this.historyPanel = document.getElementById('historyPanel') as HTMLElement;
+    this.closeHistoryButton = document.getElementById('closeHistoryButton') as HTMLButtonElement;
+    this.historySearchInput = document.getElementById('historySearchInput') as HTMLInputElement;
+    this.historyModeFilter = document.getElementById('historyModeFilter') as HTMLSelectElement;
+    this.historyFromDate = document.getElementById('historyFromDate') as HTMLInputElement;
+    this.historyToDate = document.getElementById('historyToDate') as HTMLInputElement;
+    this.historyMaxCost = document.getElementById('historyMaxCost') as HTMLInputElement;
+    this.historyList = document.getElementById('historyList') as HTMLDivElement;
+
     // Mobile UI elements
     this.moreMenuContainer = document.getElementById('moreMenuContainer') as HTMLDivElement;
     this.moreMenuButton = document.getElementById('moreMenuButton') as HTMLButtonElement;
@@ -244,6 +416,25 @@ class VoiceNotesApp {
     this.recordingStatus = document.getElementById('recordingStatus') as HTMLDivElement;
     this.rawTranscription = document.getElementById('rawTranscription') as HTMLDivElement;
     this.polishedNote = document.getElementById('polishedNote') as HTMLDivElement;
+    this.cancelPolishButton = document.getElementById('cancelPolishButton') as HTMLButtonElement;
+    this.renditionBar = document.getElementById('renditionBar') as HTMLDivElement;
+    this.renditionTabs = document.getElementById('renditionTabs') as HTMLDivElement;
+    this.repolishContainer = document.getElementById('repolishContainer') as HTMLDivElement;
+    this.repolishButton = document.getElementById('repolishButton') as HTMLButtonElement;
+    this.repolishModeList = document.getElementById('repolishModeList') as HTMLDivElement;
+    this.translateContainer = document.getElementById('translateContainer') as HTMLDivElement;
+    this.translateButton = document.getElementById('translateButton') as HTMLButtonElement;
+    this.translateLanguageList = document.getElementById('translateLanguageList') as HTMLDivElement;
+    this.translationBar = document.getElementById('translationBar') as HTMLDivElement;
+    this.compareModesButton = document.getElementById('compareModesButton') as HTMLButtonElement;
+    this.compareModal = document.getElementById('compareModal') as HTMLDivElement;
+    this.compareModeOptions = document.getElementById('compareModeOptions') as HTMLDivElement;
+    this.compareColumns = document.getElementById('compareColumns') as HTMLDivElement;
+    this.runCompareButton = document.getElementById('runCompareButton') as HTMLButtonElement;
+    this.closeCompareButton = document.getElementById('closeCompareButton') as HTMLButtonElement;
+    this.audioPlayerBar = document.getElementById('audioPlayerBar') as HTMLDivElement;
+    this.lapAudioTabs = document.getElementById('lapAudioTabs') as HTMLDivElement;
+    this.lapAudioPlayer = document.getElementById('lapAudioPlayer') as HTMLAudioElement;
     
     // Mode Selector Elements
     this.modeSelectorContainer = document.getElementById('modeSelectorContainer') as HTMLDivElement;
@@ -257,18 +448,90 @@ class VoiceNotesApp {
     this.timezoneSelectorButton = document.getElementById('timezoneSelectorButton') as HTMLButtonElement;
     this.currentTimezoneNameSpan = document.getElementById('currentTimezoneName') as HTMLSpanElement;
     this.timezoneList = document.getElementById('timezoneList') as HTMLDivElement;
+    this.timezoneSearchInput = document.getElementById('timezoneSearchInput') as HTMLInputElement;
+    this.timezoneOptions = document.getElementById('timezoneOptions') as HTMLDivElement;
 
     // Custom Prompt Modal
     this.customPromptModal = document.getElementById('customPromptModal') as HTMLDivElement;
+    this.customPromptTitle = document.getElementById('customPromptTitle') as HTMLHeadingElement;
+    this.customModeNameInput = document.getElementById('customModeNameInput') as HTMLInputElement;
     this.customPromptTextarea = document.getElementById('customPromptTextarea') as HTMLTextAreaElement;
     this.saveCustomPromptButton = document.getElementById('saveCustomPromptButton') as HTMLButtonElement;
     this.cancelCustomPromptButton = document.getElementById('cancelCustomPromptButton') as HTMLButtonElement;
+    this.deleteCustomModeButton = document.getElementById('deleteCustomModeButton') as HTMLButtonElement;
+    this.duplicateCustomModeButton = document.getElementById('duplicateCustomModeButton') as HTMLButtonElement;
+    this.exportCustomModeButton = document.getElementById('exportCustomModeButton') as HTMLButtonElement;
+    this.skipImportModeButton = document.getElementById('skipImportModeButton') as HTMLButtonElement;
+    this.replaceImportModeButton = document.getElementById('replaceImportModeButton') as HTMLButtonElement;
+    this.customPromptNotice = document.getElementById('customPromptNotice') as HTMLParagraphElement;
+    this.templateSuggestions = document.getElementById('templateSuggestions') as HTMLDivElement;
+    this.customPromptPreview = document.getElementById('customPromptPreview') as HTMLPreElement;
+    this.modeImportInput = document.getElementById('modeImportInput') as HTMLInputElement;
+
+    // Batch uploads
+    this.uploadQueuePanel = document.getElementById('uploadQueuePanel') as HTMLDivElement;
+    this.uploadQueueSummary = document.getElementById('uploadQueueSummary') as HTMLSpanElement;
+    this.uploadQueueList = document.getElementById('uploadQueueList') as HTMLUListElement;
+    this.uploadQueueToggleButton = document.getElementById('uploadQueueToggleButton') as HTMLButtonElement;
+    this.clearUploadQueueButton = document.getElementById('clearUploadQueueButton') as HTMLButtonElement;
+    this.closeUploadQueueButton = document.getElementById('closeUploadQueueButton') as HTMLButtonElement;
+
+    // Recording settings
+    this.recordingSettingsModal = document.getElementById('recordingSettingsModal') as HTMLDivElement;
+    this.micDeviceSelect = document.getElementById('micDeviceSelect') as HTMLSelectElement;
+    this.echoCancellationCheckbox = document.getElementById('echoCancellationCheckbox') as HTMLInputElement;
+    this.noiseSuppressionCheckbox = document.getElementById('noiseSuppressionCheckbox') as HTMLInputElement;
+    this.autoGainCheckbox = document.getElementById('autoGainCheckbox') as HTMLInputElement;
+    this.captureFormatHint = document.getElementById('captureFormatHint') as HTMLParagraphElement;
+    this.spokenLanguageOptions = document.getElementById('spokenLanguageOptions') as HTMLDivElement;
+    this.autoLapEnabledCheckbox = document.getElementById('autoLapEnabledCheckbox') as HTMLInputElement;
+    this.autoLapMinInput = document.getElementById('autoLapMinInput') as HTMLInputElement;
+    this.autoLapMaxInput = document.getElementById('autoLapMaxInput') as HTMLInputElement;
+    this.autoLapPauseInput = document.getElementById('autoLapPauseInput') as HTMLInputElement;
+    this.autoStopSilenceInput = document.getElementById('autoStopSilenceInput') as HTMLInputElement;
+    this.silenceThresholdInput = document.getElementById('silenceThresholdInput') as HTMLInputElement;
+    this.silenceThresholdValue = document.getElementById('silenceThresholdValue') as HTMLSpanElement;
+    this.cancelRecordingSettingsButton = document.getElementById('cancelRecordingSettingsButton') as HTMLButtonElement;
+    this.saveRecordingSettingsButton = document.getElementById('saveRecordingSettingsButton') as HTMLButtonElement;
+
+    // Location
+    this.locationModal = document.getElementById('locationModal') as HTMLDivElement;
+    this.locationNameInput = document.getElementById('locationNameInput') as HTMLInputElement;
+    this.savedPlacesOptions = document.getElementById('savedPlacesOptions') as HTMLDataListElement;
+    this.locateButton = document.getElementById('locateButton') as HTMLButtonElement;
+    this.savePlaceButton = document.getElementById('savePlaceButton') as HTMLButtonElement;
+    this.locationStatus = document.getElementById('locationStatus') as HTMLParagraphElement;
+    this.savedPlacesList = document.getElementById('savedPlacesList') as HTMLUListElement;
+    this.locationModeSelect = document.getElementById('locationModeSelect') as HTMLSelectElement;
+    this.defaultPlaceField = document.getElementById('defaultPlaceField') as HTMLLabelElement;
+    this.defaultPlaceSelect = document.getElementById('defaultPlaceSelect') as HTMLSelectElement;
+    this.cancelLocationButton = document.getElementById('cancelLocationButton') as HTMLButtonElement;
+    this.saveLocationButton = document.getElementById('saveLocationButton') as HTMLButtonElement;
+
+    // Session recovery
+    this.recoveryModal = document.getElementById('recoveryModal') as HTMLDivElement;
+    this.recoveryDescription = document.getElementById('recoveryDescription') as HTMLParagraphElement;
+    this.discardRecoveryButton = document.getElementById('discardRecoveryButton') as HTMLButtonElement;
+    this.laterRecoveryButton = document.getElementById('laterRecoveryButton') as HTMLButtonElement;
+    this.recoverSessionButton = document.getElementById('recoverSessionButton') as HTMLButtonElement;
+
+    // Markdown export
+    this.markdownExportModal = document.getElementById('markdownExportModal') as HTMLDivElement;
+    this.exportIncludeRawCheckbox = document.getElementById('exportIncludeRawCheckbox') as HTMLInputElement;
+    this.exportFilenamePatternInput = document.getElementById('exportFilenamePatternInput') as HTMLInputElement;
+    this.exportFilenamePreview = document.getElementById('exportFilenamePreview') as HTMLSpanElement;
+    this.confirmMarkdownExportButton = document.getElementById('confirmMarkdownExportButton') as HTMLButtonElement;
+    this.cancelMarkdownExportButton = document.getElementById('cancelMarkdownExportButton') as HTMLButtonElement;
+    this.exportHistoryZipButton = document.getElementById('exportHistoryZipButton') as HTMLButtonElement;
 
     // Metadata
     this.noteMetadata = document.getElementById('noteMetadata') as HTMLDivElement;
     this.metaDatetime = document.getElementById('meta-datetime') as HTMLDivElement;
     this.metaDuration = document.getElementById('meta-duration') as HTMLDivElement;
     this.metaSize = document.getElementById('meta-size') as HTMLDivElement;
+    this.metaFormat = document.getElementById('meta-format') as HTMLDivElement;
+    this.metaLocation = document.getElementById('meta-location') as HTMLDivElement;
+    this.metaLanguage = document.getElementById('meta-language') as HTMLDivElement;
     this.metaMode = document.getElementById('meta-mode') as HTMLDivElement;
     this.metaTokens = document.getElementById('meta-tokens') as HTMLDivElement;
     this.metaCost = document.getElementById('meta-cost') as HTMLDivElement;
@@ -277,6 +540,9 @@ class VoiceNotesApp {
     this.liveRecordingTitle = document.getElementById('liveRecordingTitle') as HTMLDivElement;
     this.liveWaveformCanvas = document.getElementById('liveWaveformCanvas') as HTMLCanvasElement;
     this.liveRecordingTimerDisplay = document.getElementById('liveRecordingTimerDisplay') as HTMLDivElement;
+    this.inputLevelRms = document.getElementById('inputLevelRms') as HTMLDivElement;
+    this.inputLevelPeak = document.getElementById('inputLevelPeak') as HTMLDivElement;
+    this.inputLevelWarning = document.getElementById('inputLevelWarning') as HTMLDivElement;
 
     // Tabs
     this.tabButtons = document.querySelectorAll('.tab-button');
@@ -289,11 +555,20 @@ class VoiceNotesApp {
     this.initMoreMenu();
     this.initTheme();
     this.initTabs();
+    this.loadModeLibrary();
     this.initCustomModeSelector();
     this.initTimezoneSelector();
-    this.loadCustomPrompt();
+    this.initHistoryPanel();
+    this.loadMarkdownExportSettings();
+    this.loadAutoLapSettings();
+    this.loadCaptureSettings();
+    this.loadSpokenLanguages();
+    this.loadTranslationLanguages();
+    this.loadLocationSettings();
     this.loadAndSetInitialMode();
     this.createNewNote();
+    this.drainTranscriptionQueue();
+    this.checkForUnfinishedSessions();
 
     this.recordingStatus.textContent = 'Ready to record';
   }
@@ -301,15 +576,26 @@ class VoiceNotesApp {
   private bindEventListeners(): void {
     // Desktop buttons
     this.fabRecord.addEventListener('click', () => this.startFullRecordingSession());
-    this.newButton.addEventListener('click', () => this.createNewNote());
+    this.newButton.addEventListener('click', () => this.requestNewNote());
     this.uploadButton.addEventListener('click', () => this.triggerFileUpload());
     this.themeToggleButton.addEventListener('click', () => this.toggleTheme());
     this.copyButton.addEventListener('click', () => this.copyPolishedNote());
     this.copyMetaButton.addEventListener('click', () => this.copyMetadata());
+    this.historyButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.toggleHistoryPanel();
+    });
+    this.closeHistoryButton.addEventListener('click', () => this.closeHistoryPanel());
+    this.exportMarkdownButton.addEventListener('click', () => this.openMarkdownExportModal());
+    this.recordingSettingsButton.addEventListener('click', () => this.openRecordingSettingsModal());
+    this.confirmMarkdownExportButton.addEventListener('click', () => this.downloadMarkdown());
+    this.cancelMarkdownExportButton.addEventListener('click', () => this.closeMarkdownExportModal());
+    this.exportFilenamePatternInput.addEventListener('input', () => this.updateExportFilenamePreview());
+    this.exportHistoryZipButton.addEventListener('click', () => this.exportHistoryZip());
     
     // Mobile buttons
     this.bottomNavRecord.addEventListener('click', () => this.startFullRecordingSession());
-    this.bottomNavNew.addEventListener('click', () => this.createNewNote());
+    this.bottomNavNew.addEventListener('click', () => this.requestNewNote());
     this.bottomNavUpload.addEventListener('click', () => this.triggerFileUpload());
     this.moreMenuButton.addEventListener('click', (e) => {
       e.stopPropagation();
@@ -322,10 +608,26 @@ class VoiceNotesApp {
     this.lapButton.addEventListener('click', () => this.handleLap());
     this.audioUploadInput.addEventListener('change', (e) => this.handleFileUpload(e));
     this.copyRawButton.addEventListener('click', () => this.copyRawTranscription());
+    this.downloadSrtButton.addEventListener('click', () => this.downloadSubtitles('srt'));
+    this.downloadVttButton.addEventListener('click', () => this.downloadSubtitles('vtt'));
+    this.lapAudioPlayer.addEventListener('ended', () => this.playNextLapAudio());
     
-    this.editCustomPromptButton.addEventListener('click', () => this.openCustomPromptModal());
+    this.editCustomPromptButton.addEventListener('click', () => this.openCustomPromptModal(this.currentModeId));
     this.saveCustomPromptButton.addEventListener('click', () => this.saveCustomPrompt());
     this.cancelCustomPromptButton.addEventListener('click', () => this.closeCustomPromptModal());
+    this.deleteCustomModeButton.addEventListener('click', () => this.deleteCustomMode());
+    this.duplicateCustomModeButton.addEventListener('click', () => this.duplicateCustomMode());
+    this.exportCustomModeButton.addEventListener('click', () => this.exportEditedMode());
+    this.skipImportModeButton.addEventListener('click', () => this.skipModeImport());
+    this.replaceImportModeButton.addEventListener('click', () => this.importPendingMode(true));
+    this.modeImportInput.addEventListener('change', (e) => this.handleModeImport(e));
+    this.customPromptTextarea.addEventListener('input', () => {
+      this.updateTemplateSuggestions();
+      this.updateCustomPromptPreview();
+    });
+    this.customPromptTextarea.addEventListener('click', () => this.updateTemplateSuggestions());
+    this.customPromptTextarea.addEventListener('keydown', (e) => this.handleTemplateSuggestionKeys(e));
+    this.customPromptTextarea.addEventListener('blur', () => this.hideTemplateSuggestions());
 
     this.modeSelectorButton.addEventListener('click', (e) => {
         e.stopPropagation();
@@ -336,9 +638,51 @@ class VoiceNotesApp {
       e.stopPropagation();
       this.toggleTimezoneList();
     });
+    this.timezoneSearchInput.addEventListener('input', () => this.renderTimezoneOptions());
+    this.timezoneSearchInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        this.closeTimezoneList();
+      } else if (e.key === 'Enter') {
+        // Pick the first match, so a zone can be chosen without the mouse.
+        (this.timezoneOptions.querySelector('.mode-option') as HTMLButtonElement | null)?.click();
+      }
+    });
+
+    this.repolishButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.toggleRepolishList();
+    });
+    this.translateButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.toggleTranslateList();
+    });
+    this.cancelPolishButton.addEventListener('click', () => this.polishAbortController?.abort());
+    this.compareModesButton.addEventListener('click', () => this.openCompareModal());
+    this.runCompareButton.addEventListener('click', () => this.runModeComparison());
+    this.closeCompareButton.addEventListener('click', () => this.closeCompareModal());
+    this.uploadQueueToggleButton.addEventListener('click', () => this.toggleUploadQueue());
+    this.clearUploadQueueButton.addEventListener('click', () => this.clearFinishedUploads());
+    this.closeUploadQueueButton.addEventListener('click', () => { this.uploadQueuePanel.style.display = 'none'; });
+    this.initDropZone();
+    this.saveRecordingSettingsButton.addEventListener('click', () => this.saveRecordingSettings());
+    this.cancelRecordingSettingsButton.addEventListener('click', () => this.closeRecordingSettingsModal());
+    this.silenceThresholdInput.addEventListener('input', () => this.updateSilenceThresholdLabel());
+    this.metaLocation.addEventListener('click', () => this.openLocationModal());
+    this.locateButton.addEventListener('click', () => this.locateForModal());
+    this.savePlaceButton.addEventListener('click', () => this.saveCurrentPlace());
+    this.locationModeSelect.addEventListener('change', () => this.updateDefaultPlaceField());
+    this.cancelLocationButton.addEventListener('click', () => this.closeLocationModal());
+    this.saveLocationButton.addEventListener('click', () => this.saveLocation());
+    navigator.mediaDevices?.addEventListener('devicechange', () => {
+      if (this.recordingSettingsModal.style.display !== 'none') this.populateMicDevices();
+    });
+    this.recoverSessionButton.addEventListener('click', () => this.recoverUnfinishedSession());
+    this.discardRecoveryButton.addEventListener('click', () => this.discardUnfinishedSession());
+    this.laterRecoveryButton.addEventListener('click', () => this.closeRecoveryModal());
 
     document.addEventListener('click', (e) => this.handleDocumentClick(e));
     window.addEventListener('resize', this.handleResize.bind(this));
+    window.addEventListener('online', () => this.drainTranscriptionQueue());
   }
   
   private initTabs(): void {
@@ -373,8 +717,17 @@ class VoiceNotesApp {
 
   private initCustomModeSelector(): void {
     this.modeList.innerHTML = ''; // Clear existing
+    let addedDivider = false;
     for (const key in MODES) {
-        const mode = MODES[key as ModeID];
+        const mode = MODES[key];
+        if (!mode.builtIn && !addedDivider) {
+            this.modeList.appendChild(this.createModeListDivider());
+            addedDivider = true;
+        }
+
+        const row = document.createElement('div');
+        row.className = 'mode-option-row';
+
         const optionButton = document.createElement('button');
         optionButton.className = 'mode-option';
         optionButton.textContent = mode.name;
@@ -388,63 +741,198 @@ class VoiceNotesApp {
         optionButton.addEventListener('mouseenter', (e) => this.showModeTooltip(e, mode));
         optionButton.addEventListener('mouseleave', () => this.hideTooltip());
 
-        this.modeList.appendChild(optionButton);
+        // Built-in modes are read-only templates: they can be cloned, not edited.
+        const actionButton = document.createElement('button');
+        actionButton.className = 'mode-option-action';
+        actionButton.title = mode.builtIn ? `Clone ${mode.name}` : `Edit ${mode.name}`;
+        actionButton.innerHTML = `<i class="fas ${mode.builtIn ? 'fa-clone' : 'fa-pencil'}"></i>`;
+        actionButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.closeModeList();
+            this.hideTooltip();
+            if (mode.builtIn) {
+                this.openNewModeModal(`Copy of ${mode.name}`, mode.instructions);
+            } else {
+                this.openCustomPromptModal(mode.id);
+            }
+        });
+
+        row.appendChild(optionButton);
+        row.appendChild(actionButton);
+        this.modeList.appendChild(row);
     }
-  }
 
-  private initTimezoneSelector(): void {
-    const timezones = [
-      'UTC', 'Europe/Warsaw', 'Europe/London', 'Europe/Paris', 'Europe/Berlin',
-      'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles',
-      'Asia/Tokyo', 'Asia/Dubai', 'Asia/Kolkata', 'Australia/Sydney'
-    ];
-    
-    this.timezoneList.innerHTML = ''; // Clear existing
-    timezones.forEach(tz => {
-        const optionButton = document.createElement('button');
-        optionButton.className = 'mode-option';
-        optionButton.textContent = tz.replace(/_/g, ' ');
-        optionButton.dataset.tz = tz;
+    this.modeList.appendChild(this.createModeListDivider());
+    const newModeButton = document.createElement('button');
+    newModeButton.className = 'mode-option new-mode';
+    newModeButton.innerHTML = '<i class="fas fa-plus"></i> New mode';
+    newModeButton.addEventListener('click', () => {
+        this.closeModeList();
+        this.openNewModeModal('', '');
+    });
+    this.modeList.appendChild(newModeButton);
 
-        optionButton.addEventListener('click', () => {
-            this.handleTimezoneChange(tz);
-            this.closeTimezoneList();
+    const importButton = document.createElement('button');
+    importButton.className = 'mode-option new-mode';
+    importButton.innerHTML = '<i class="fas fa-file-import"></i> Import modes...';
+    importButton.addEventListener('click', () => {
+        this.closeModeList();
+        this.modeImportInput.click();
+    });
+    this.modeList.appendChild(importButton);
+
+    if (this.userModes.length > 0) {
+        const exportButton = document.createElement('button');
+        exportButton.className = 'mode-option new-mode';
+        exportButton.innerHTML = '<i class="fas fa-file-export"></i> Export my modes';
+        exportButton.addEventListener('click', () => {
+            this.closeModeList();
+            this.downloadFile('voice-notes-modes.json', serializeModes(this.userModes), 'application/json');
         });
+        this.modeList.appendChild(exportButton);
+    }
 
-        optionButton.addEventListener('mouseenter', (e) => this.showTimezoneTooltip(e, tz));
-        optionButton.addEventListener('mouseleave', () => this.hideTooltip());
+    this.updateModeDisplay();
+  }
 
-        this.timezoneList.appendChild(optionButton);
-    });
-    
+  private createModeListDivider(): HTMLDivElement {
+    const divider = document.createElement('div');
+    divider.className = 'mode-list-divider';
+    return divider;
+  }
+
+  private initTimezoneSelector(): void {
+    this.allTimezones = supportedTimeZones();
+    const stored = (key: string): string[] => {
+      try {
+        const saved = JSON.parse(localStorage.getItem(key) || '[]');
+        return Array.isArray(saved) ? saved.filter(zone => typeof zone === 'string' && isValidTimeZone(zone)) : [];
+      } catch (error) {
+        console.warn(`Ignoring invalid ${key}:`, error);
+        return [];
+      }
+    };
+    this.recentTimezones = stored('recentTimezones');
+    this.favoriteTimezones = stored('favoriteTimezones');
+
+    // Any zone the runtime accepts is kept, even one it doesn't list.
     const savedTimezone = localStorage.getItem('selectedTimezone');
-    if (savedTimezone && timezones.includes(savedTimezone)) {
-        this.currentTimezone = savedTimezone;
-    } else {
-        this.currentTimezone = 'Europe/Warsaw'; // Default
-    }
+    this.followBrowserTimezone = !savedTimezone || !isValidTimeZone(savedTimezone);
+    this.currentTimezone = this.followBrowserTimezone ? browserTimeZone() : savedTimezone!;
     this.updateTimezoneDisplay();
   }
 
-  private handleTimezoneChange(newTimezone: string): void {
-    this.currentTimezone = newTimezone;
-    localStorage.setItem('selectedTimezone', this.currentTimezone);
+  // Null follows the browser's timezone instead of a fixed one.
+  private handleTimezoneChange(newTimezone: string | null): void {
+    this.followBrowserTimezone = newTimezone === null;
+    this.currentTimezone = newTimezone ?? browserTimeZone();
+    if (newTimezone) {
+      localStorage.setItem('selectedTimezone', newTimezone);
+      this.recentTimezones = addRecentTimeZone(this.recentTimezones, newTimezone);
+      localStorage.setItem('recentTimezones', JSON.stringify(this.recentTimezones));
+    } else {
+      localStorage.removeItem('selectedTimezone');
+    }
     this.updateTimezoneDisplay();
     this.updateMetadataDisplay();
+    this.renderHistoryList();
   }
-  
+
+  private toggleFavoriteTimezone(timeZone: string): void {
+    this.favoriteTimezones = this.favoriteTimezones.includes(timeZone)
+      ? this.favoriteTimezones.filter(zone => zone !== timeZone)
+      : [...this.favoriteTimezones, timeZone].sort();
+    localStorage.setItem('favoriteTimezones', JSON.stringify(this.favoriteTimezones));
+    this.renderTimezoneOptions();
+  }
+
   private updateTimezoneDisplay(): void {
     if (this.currentTimezoneNameSpan) {
-        this.currentTimezoneNameSpan.textContent = this.currentTimezone.replace(/_/g, ' ');
+        this.currentTimezoneNameSpan.textContent = timeZoneLabel(this.currentTimezone);
     }
-    this.timezoneList.querySelectorAll('.mode-option').forEach(opt => {
-        const button = opt as HTMLButtonElement;
-        if (button.dataset.tz === this.currentTimezone) {
-            button.classList.add('active');
-        } else {
-            button.classList.remove('active');
-        }
+    if (this.timezoneList.classList.contains('show')) this.renderTimezoneOptions();
+  }
+
+  // Without a search: browser default, favourites, recent zones, then every
+  // zone. With one: just the matches.
+  private renderTimezoneOptions(): void {
+    const offsetOf = (zone: string) => {
+      if (!this.timezoneOffsets.has(zone)) this.timezoneOffsets.set(zone, timeZoneOffset(zone));
+      return this.timezoneOffsets.get(zone)!;
+    };
+    const query = this.timezoneSearchInput.value;
+    this.timezoneOptions.innerHTML = '';
+
+    const addHeading = (text: string) => {
+        const heading = document.createElement('div');
+        heading.className = 'timezone-list-heading';
+        heading.textContent = text;
+        this.timezoneOptions.appendChild(heading);
+    };
+    const addZones = (zones: string[]) => zones.forEach(zone => {
+        const row = document.createElement('div');
+        row.className = 'mode-option-row';
+
+        const optionButton = document.createElement('button');
+        optionButton.className = 'mode-option';
+        optionButton.classList.toggle('active', !this.followBrowserTimezone && zone === this.currentTimezone);
+        optionButton.textContent = timeZoneLabel(zone);
+        const offset = document.createElement('span');
+        offset.className = 'timezone-offset';
+        offset.textContent = offsetOf(zone);
+        optionButton.appendChild(offset);
+        optionButton.addEventListener('click', () => {
+            this.handleTimezoneChange(zone);
+            this.closeTimezoneList();
+        });
+        optionButton.addEventListener('mouseenter', (e) => this.showTimezoneTooltip(e, zone));
+        optionButton.addEventListener('mouseleave', () => this.hideTooltip());
+
+        const favorite = this.favoriteTimezones.includes(zone);
+        const favoriteButton = document.createElement('button');
+        favoriteButton.className = 'mode-option-action';
+        favoriteButton.classList.toggle('favorite', favorite);
+        favoriteButton.title = favorite ? 'Remove from favourites' : 'Add to favourites';
+        favoriteButton.innerHTML = `<i class="${favorite ? 'fas' : 'far'} fa-star"></i>`;
+        favoriteButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.toggleFavoriteTimezone(zone);
+        });
+
+        row.appendChild(optionButton);
+        row.appendChild(favoriteButton);
+        this.timezoneOptions.appendChild(row);
+    });
+
+    if (query.trim()) {
+        const matches = searchTimeZones(this.allTimezones, query, offsetOf);
+        if (matches.length === 0) addHeading('No matching timezones');
+        addZones(matches);
+        return;
+    }
+
+    const browserZone = browserTimeZone();
+    const browserButton = document.createElement('button');
+    browserButton.className = 'mode-option';
+    browserButton.classList.toggle('active', this.followBrowserTimezone);
+    browserButton.textContent = `Browser default (${timeZoneLabel(browserZone)})`;
+    browserButton.addEventListener('click', () => {
+        this.handleTimezoneChange(null);
+        this.closeTimezoneList();
     });
+    this.timezoneOptions.appendChild(browserButton);
+
+    if (this.favoriteTimezones.length > 0) {
+        addHeading('Favourites');
+        addZones(this.favoriteTimezones);
+    }
+    const recent = this.recentTimezones.filter(zone => !this.favoriteTimezones.includes(zone));
+    if (recent.length > 0) {
+        addHeading('Recent');
+        addZones(recent);
+    }
+    addHeading('All timezones');
+    addZones(this.allTimezones);
   }
 
   private toggleTimezoneList(): void {
@@ -452,8 +940,12 @@ class VoiceNotesApp {
         this.closeTimezoneList();
     } else {
         this.closeModeList(); // Close other dropdown for better UX
+        this.timezoneOffsets.clear(); // Offsets move with daylight saving time
+        this.timezoneSearchInput.value = '';
         this.timezoneList.classList.add('show');
         this.timezoneSelectorButton.classList.add('open');
+        this.renderTimezoneOptions();
+        this.timezoneSearchInput.focus();
     }
   }
 
@@ -488,13 +980,28 @@ class VoiceNotesApp {
       if (!this.moreMenuContainer.contains(event.target as Node)) {
           this.closeMoreMenu();
       }
+      if (!this.historyPanel.contains(event.target as Node)) {
+          this.closeHistoryPanel();
+      }
+      if (!this.repolishContainer.contains(event.target as Node)) {
+          this.closeRepolishList();
+      }
+      if (!this.translateContainer.contains(event.target as Node)) {
+          this.closeTranslateList();
+      }
   }
 
   private showModeTooltip(event: MouseEvent, mode: Mode): void {
       const target = event.currentTarget as HTMLElement;
       const rect = target.getBoundingClientRect();
   
-      this.modeTooltip.innerHTML = `<h4>${mode.name}</h4><pre>${mode.instructions}</pre>`;
+      this.modeTooltip.innerHTML = '';
+      const title = document.createElement('h4');
+      title.textContent = mode.name;
+      const instructions = document.createElement('pre');
+      instructions.textContent = mode.instructions;
+      this.modeTooltip.appendChild(title);
+      this.modeTooltip.appendChild(instructions);
       this.modeTooltip.classList.add('show');
       
       const tooltipRect = this.modeTooltip.getBoundingClientRect();
@@ -521,7 +1028,7 @@ class VoiceNotesApp {
         timeZone: tz
     });
 
-    this.modeTooltip.innerHTML = `<h4>${tz.replace(/_/g, ' ')}</h4><p>Current time: ${currentTime}</p>`;
+    this.modeTooltip.innerHTML = `<h4>${timeZoneLabel(tz)}</h4><p>Current time: ${currentTime}</p>`;
     this.modeTooltip.classList.add('show');
     
     const tooltipRect = this.modeTooltip.getBoundingClientRect();
@@ -579,45 +1086,512 @@ class VoiceNotesApp {
     this.updateCustomPromptButtonVisibility();
   }
 
-  private loadCustomPrompt(): void {
-    const savedPrompt = localStorage.getItem('customPromptInstructions');
-    // A helpful default prompt for first-time users.
-    this.customPromptInstructions = savedPrompt || `You are a helpful assistant. Please follow these instructions:
-- Summarize the text into three bullet points.
-- Identify any questions asked within the text.
-- List all action items clearly using markdown checkboxes.`;
-    MODES.custom.instructions = this.customPromptInstructions;
+  private loadModeLibrary(): void {
+    this.userModes = loadUserModes();
+    this.syncUserModes();
+  }
+
+  // Rebuilds the user-mode part of MODES and every list that shows modes.
+  private syncUserModes(): void {
+    for (const key in MODES) {
+        if (!MODES[key].builtIn) delete MODES[key];
+    }
+    this.userModes.forEach(mode => { MODES[mode.id] = mode; });
+    saveUserModes(this.userModes);
+
+    if (this.modeList.childElementCount > 0) {
+        this.initCustomModeSelector();
+        this.renderHistoryModeFilter();
+    }
   }
 
   private updateCustomPromptButtonVisibility(): void {
-    if (this.currentModeId === 'custom') {
+    if (MODES[this.currentModeId] && !MODES[this.currentModeId].builtIn) {
         this.editCustomPromptButton.style.display = 'flex';
     } else {
         this.editCustomPromptButton.style.display = 'none';
     }
   }
 
-  private openCustomPromptModal(): void {
-    this.customPromptTextarea.value = this.customPromptInstructions;
-    this.customPromptModal.style.display = 'flex';
+  private openCustomPromptModal(modeId: ModeID): void {
+    const mode = this.userModes.find(m => m.id === modeId);
+    if (!mode) return;
+    this.editingModeId = mode.id;
+    this.setCustomPromptModalState('edit');
+    this.customPromptTitle.textContent = 'Edit Mode';
+    this.customModeNameInput.value = mode.name;
+    this.customPromptTextarea.value = mode.instructions;
+    this.showCustomPromptModal();
     this.customPromptTextarea.focus();
   }
 
+  private openNewModeModal(name: string, instructions: string): void {
+    this.editingModeId = null;
+    this.setCustomPromptModalState('new');
+    this.customPromptTitle.textContent = 'New Mode';
+    this.customModeNameInput.value = name ? uniqueModeName(name, Object.values(MODES)) : '';
+    this.customPromptTextarea.value = instructions;
+    this.showCustomPromptModal();
+    this.customModeNameInput.focus();
+  }
+
+  private setCustomPromptModalState(state: 'edit' | 'new' | 'import', notice = ''): void {
+    this.customPromptModalState = state;
+    const show = (button: HTMLButtonElement, visible: boolean) => { button.style.display = visible ? '' : 'none'; };
+    show(this.deleteCustomModeButton, state === 'edit');
+    show(this.duplicateCustomModeButton, state === 'edit');
+    show(this.exportCustomModeButton, state === 'edit');
+    show(this.skipImportModeButton, state === 'import');
+    show(this.replaceImportModeButton, false);
+    this.saveCustomPromptButton.textContent = state === 'import' ? 'Import' : 'Save';
+    this.customPromptNotice.textContent = notice;
+    this.customPromptNotice.style.display = notice ? '' : 'none';
+  }
+
+  private showCustomPromptModal(): void {
+    this.hideTemplateSuggestions();
+    this.updateCustomPromptPreview();
+    this.customPromptModal.style.display = 'flex';
+  }
+
+  private updateCustomPromptPreview(): void {
+    this.customPromptPreview.textContent = resolveTemplate(this.customPromptTextarea.value, this.templateValues());
+  }
+
+  // Shows the variables matching a "{{..." typed right before the caret.
+  private updateTemplateSuggestions(): void {
+    const textarea = this.customPromptTextarea;
+    const beforeCaret = textarea.value.slice(0, textarea.selectionStart);
+    const match = textarea.selectionStart === textarea.selectionEnd ? beforeCaret.match(PARTIAL_PLACEHOLDER_PATTERN) : null;
+    const prefix = match ? match[1].toLowerCase() : null;
+    const matches = prefix === null ? [] : TEMPLATE_VARIABLES.filter(v => v.name.toLowerCase().startsWith(prefix));
+
+    if (matches.length === 0) {
+        this.hideTemplateSuggestions();
+        return;
+    }
+
+    this.templateSuggestionIndex = Math.min(this.templateSuggestionIndex, matches.length - 1);
+    this.templateSuggestions.innerHTML = '';
+    matches.forEach((variable, i) => {
+        const option = document.createElement('button');
+        option.type = 'button';
+        option.className = 'template-suggestion';
+        if (i === this.templateSuggestionIndex) option.classList.add('active');
+        option.dataset.name = variable.name;
+        const code = document.createElement('code');
+        code.textContent = `{{${variable.name}}}`;
+        const description = document.createElement('span');
+        description.textContent = variable.description;
+        option.appendChild(code);
+        option.appendChild(description);
+        // Keep focus in the textarea so the caret position is preserved.
+        option.addEventListener('mousedown', (e) => {
+            e.preventDefault();
+            this.insertTemplateVariable(variable.name);
+        });
+        this.templateSuggestions.appendChild(option);
+    });
+    this.templateSuggestions.classList.add('show');
+  }
+
+  private hideTemplateSuggestions(): void {
+    this.templateSuggestions.classList.remove('show');
+    this.templateSuggestionIndex = 0;
+  }
+
+  private handleTemplateSuggestionKeys(event: KeyboardEvent): void {
+    if (!this.templateSuggestions.classList.contains('show')) return;
+    const options = Array.from(this.templateSuggestions.querySelectorAll<HTMLButtonElement>('.template-suggestion'));
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        this.templateSuggestionIndex = (this.templateSuggestionIndex + step + options.length) % options.length;
+        options.forEach((option, i) => option.classList.toggle('active', i === this.templateSuggestionIndex));
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        const name = options[this.templateSuggestionIndex]?.dataset.name;
+        if (name) this.insertTemplateVariable(name);
+    } else if (event.key === 'Escape') {
+        event.preventDefault();
+        event.stopPropagation();
+        this.hideTemplateSuggestions();
+    }
+  }
+
+  private insertTemplateVariable(name: string): void {
+    const textarea = this.customPromptTextarea;
+    const caret = textarea.selectionStart;
+    const beforeCaret = textarea.value.slice(0, caret);
+    const match = beforeCaret.match(PARTIAL_PLACEHOLDER_PATTERN);
+    const start = match ? caret - match[0].length : caret;
+    const afterCaret = textarea.value.slice(caret).replace(/^\w*\}{0,2}/, '');
+    const placeholder = `{{${name}}}`;
+    textarea.value = textarea.value.slice(0, start) + placeholder + afterCaret;
+    textarea.selectionStart = textarea.selectionEnd = start + placeholder.length;
+    this.hideTemplateSuggestions();
+    this.updateCustomPromptPreview();
+  }
+
+  // Values for the {{variables}} in mode instructions, taken from the current note.
+  private templateValues(): TemplateValues {
+    const note = this.currentNote;
+    const date = new Date(note ? note.timestamp : Date.now());
+    const speakers = new Set<string>();
+    if (this.allRawLapText.trim()) {
+        for (const lap of parseSessionTranscript(this.allRawLapText, note?.laps)) {
+            lap.segments.forEach(segment => { if (segment.speaker) speakers.add(segment.speaker); });
+        }
+    }
+    return {
+      date: date.toLocaleDateString('en-US', { timeZone: this.noteTimeZone(note), dateStyle: 'full' }),
+      time: date.toLocaleTimeString('en-US', { timeZone: this.noteTimeZone(note), timeStyle: 'short' }),
+      timezone: this.noteTimeZone(note),
+      location: note?.location?.name ?? 'Unknown',
+      duration: this.formatDuration(note?.duration || this.totalDurationMs),
+      lapCount: String(note?.laps.length || this.lapCount),
+      speakers: speakers.size > 0 ? [...speakers].join(', ') : 'Unknown',
+      title: note && note.rawTranscription.trim() ? noteTitle(note) : 'Untitled note',
+    };
+  }
+
   private closeCustomPromptModal(): void {
     this.customPromptModal.style.display = 'none';
+    this.pendingModeImports = [];
   }
 
   private saveCustomPrompt(): void {
+    if (this.customPromptModalState === 'import') {
+      this.importPendingMode(false);
+      return;
+    }
+    const name = this.customModeNameInput.value.trim();
     const newPrompt = this.customPromptTextarea.value.trim();
-    if (newPrompt) {
-      this.customPromptInstructions = newPrompt;
-      MODES.custom.instructions = newPrompt;
-      localStorage.setItem('customPromptInstructions', newPrompt);
+    if (!name) {
+      this.customModeNameInput.placeholder = 'Name cannot be empty.';
+      this.customModeNameInput.focus();
+      return;
+    }
+    if (!newPrompt) {
+      this.customPromptTextarea.placeholder = 'Prompt cannot be empty. Please enter your instructions.';
+      this.customPromptTextarea.focus();
+      return;
+    }
+
+    const others = Object.values(MODES).filter(mode => mode.id !== this.editingModeId);
+    const uniqueName = uniqueModeName(name, others);
+    const existing = this.userModes.find(mode => mode.id === this.editingModeId);
+    let savedModeId: ModeID;
+    if (existing) {
+      existing.name = uniqueName;
+      existing.instructions = newPrompt;
+      savedModeId = existing.id;
+    } else {
+      savedModeId = createModeId();
+      this.userModes.push({ id: savedModeId, name: uniqueName, instructions: newPrompt });
+    }
+    this.syncUserModes();
+    this.handleModeChange(savedModeId);
+    this.closeCustomPromptModal();
+  }
+
+  private exportEditedMode(): void {
+    const mode = this.userModes.find(m => m.id === this.editingModeId);
+    if (!mode) return;
+    // Export what is in the editor, so unsaved tweaks can be shared too.
+    const edited: Mode = {
+      ...mode,
+      name: this.customModeNameInput.value.trim() || mode.name,
+      instructions: this.customPromptTextarea.value.trim() || mode.instructions,
+    };
+    const slug = edited.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'mode';
+    this.downloadFile(`${slug}.mode.json`, serializeModes([edited]), 'application/json');
+  }
+
+  private async handleModeImport(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Reset for next selection
+    if (!file) return;
+
+    try {
+      this.pendingModeImports = parseModesFile(await file.text());
+    } catch (error) {
+      console.error('Error importing modes:', error);
+      alert(`Could not import modes from ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    this.modeImportTotal = this.pendingModeImports.length;
+    this.showNextModeImport();
+  }
+
+  // Previews the next imported mode in the editor so it can be checked before saving.
+  private showNextModeImport(): void {
+    const definition = this.pendingModeImports[0];
+    if (!definition) {
       this.closeCustomPromptModal();
+      return;
+    }
+
+    const position = this.modeImportTotal - this.pendingModeImports.length + 1;
+    const collision = Object.values(MODES).find(m => m.name.trim().toLowerCase() === definition.name.toLowerCase());
+    let notice = this.modeImportTotal > 1 ? `Importing mode ${position} of ${this.modeImportTotal}.` : '';
+    if (collision) {
+      notice += ` A mode named "${collision.name}" already exists. Importing keeps both and renames this one`;
+      notice += collision.builtIn ? '.' : ', or you can replace the existing mode.';
+    }
+
+    this.editingModeId = null;
+    this.setCustomPromptModalState('import', notice.trim());
+    this.replaceImportModeButton.style.display = collision && !collision.builtIn ? '' : 'none';
+    this.customPromptTitle.textContent = 'Import Mode';
+    this.customModeNameInput.value = definition.name;
+    this.customPromptTextarea.value = definition.instructions;
+    this.showCustomPromptModal();
+  }
+
+  private importPendingMode(replaceExisting: boolean): void {
+    const name = this.customModeNameInput.value.trim();
+    const instructions = this.customPromptTextarea.value.trim();
+    if (!name || !instructions) {
+      this.customPromptNotice.textContent = 'The imported mode needs a name and instructions.';
+      this.customPromptNotice.style.display = '';
+      return;
+    }
+
+    const existing = this.userModes.find(m => m.name.trim().toLowerCase() === name.toLowerCase());
+    if (replaceExisting && existing) {
+      existing.instructions = instructions;
     } else {
-      // Optional: show an error message that prompt can't be empty
-      this.customPromptTextarea.placeholder = 'Prompt cannot be empty. Please enter your instructions.';
+      this.userModes.push({ id: createModeId(), name: uniqueModeName(name, Object.values(MODES)), instructions });
+    }
+    this.syncUserModes();
+    this.updateCustomPromptButtonVisibility();
+    this.skipModeImport();
+  }
+
+  private skipModeImport(): void {
+    this.pendingModeImports.shift();
+    this.showNextModeImport();
+  }
+
+  private duplicateCustomMode(): void {
+    const mode = this.userModes.find(m => m.id === this.editingModeId);
+    if (!mode) return;
+    this.openNewModeModal(`Copy of ${this.customModeNameInput.value.trim() || mode.name}`, this.customPromptTextarea.value);
+  }
+
+  private deleteCustomMode(): void {
+    const mode = this.userModes.find(m => m.id === this.editingModeId);
+    if (!mode || !confirm(`Delete the mode "${mode.name}"? Notes polished with it keep their text.`)) return;
+    this.userModes = this.userModes.filter(m => m.id !== mode.id);
+    this.syncUserModes();
+    if (this.currentModeId === mode.id) {
+        this.handleModeChange('journal');
+    }
+    this.closeCustomPromptModal();
+  }
+
+  private initHistoryPanel(): void {
+    this.renderHistoryModeFilter();
+
+    const rerender = () => this.renderHistoryList();
+    this.historySearchInput.addEventListener('input', rerender);
+    this.historyModeFilter.addEventListener('change', rerender);
+    this.historyFromDate.addEventListener('change', rerender);
+    this.historyToDate.addEventListener('change', rerender);
+    this.historyMaxCost.addEventListener('input', rerender);
+  }
+
+  private renderHistoryModeFilter(): void {
+    const selected = this.historyModeFilter.value;
+    this.historyModeFilter.innerHTML = '<option value="">All modes</option>';
+    for (const key in MODES) {
+        const mode = MODES[key];
+        const option = document.createElement('option');
+        option.value = mode.id;
+        option.textContent = mode.name;
+        this.historyModeFilter.appendChild(option);
+    }
+    this.historyModeFilter.value = MODES[selected] ? selected : '';
+  }
+
+  private toggleHistoryPanel(): void {
+    if (this.historyPanel.classList.contains('show')) {
+        this.closeHistoryPanel();
+    } else {
+        this.openHistoryPanel();
+    }
+  }
+
+  private openHistoryPanel(): void {
+    this.closeModeList();
+    this.closeTimezoneList();
+    this.historyPanel.classList.add('show');
+    this.refreshHistory();
+  }
+
+  private closeHistoryPanel(): void {
+    this.historyPanel.classList.remove('show');
+  }
+
+  private async refreshHistory(): Promise<void> {
+    try {
+      this.historyNotes = await this.noteStore.getAll();
+    } catch (error) {
+      console.error('Error loading note history:', error);
+      this.historyNotes = [];
+    }
+    this.renderHistoryList();
+  }
+
+  private readHistoryFilter(): HistoryFilter {
+    const maxCost = parseFloat(this.historyMaxCost.value);
+    return {
+      ...EMPTY_HISTORY_FILTER,
+      query: this.historySearchInput.value,
+      modeId: this.historyModeFilter.value as ModeID | '',
+      fromDate: this.historyFromDate.value,
+      toDate: this.historyToDate.value,
+      maxCost: isNaN(maxCost) ? null : maxCost,
+    };
+  }
+
+  private renderHistoryList(): void {
+    this.historyList.innerHTML = '';
+    const notes = filterNotes(this.historyNotes, this.readHistoryFilter(), note => this.noteTimeZone(note));
+
+    if (notes.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'history-empty';
+        empty.textContent = this.historyNotes.length === 0 ? 'No saved notes yet.' : 'No notes match these filters.';
+        this.historyList.appendChild(empty);
+        return;
+    }
+
+    for (const group of groupNotesByDay(notes, note => this.noteTimeZone(note))) {
+        const dayHeader = document.createElement('div');
+        dayHeader.className = 'history-day';
+        dayHeader.textContent = new Date(group.notes[0].timestamp).toLocaleDateString(undefined, {
+            weekday: 'short', year: 'numeric', month: 'short', day: 'numeric',
+            timeZone: this.noteTimeZone(group.notes[0]),
+        });
+        this.historyList.appendChild(dayHeader);
+
+        for (const note of group.notes) {
+            this.historyList.appendChild(this.createHistoryItem(note));
+        }
+    }
+  }
+
+  private createHistoryItem(note: Note): HTMLDivElement {
+    const item = document.createElement('div');
+    item.className = 'history-item';
+    if (this.currentNote?.id === note.id) item.classList.add('active');
+
+    const mainButton = document.createElement('button');
+    mainButton.className = 'history-item-main';
+    mainButton.title = notePreview(note, 200);
+
+    const title = document.createElement('span');
+    title.className = 'history-item-title';
+    title.textContent = noteTitle(note);
+
+    const meta = document.createElement('span');
+    meta.className = 'history-item-meta';
+    // Name the zone when the note was recorded in another one.
+    const timeZone = this.noteTimeZone(note);
+    const time = new Date(note.timestamp).toLocaleTimeString(undefined, {
+        hour: 'numeric', minute: '2-digit', timeZone,
+        ...(timeZone !== this.currentTimezone ? { timeZoneName: 'short' as const } : {}),
+    });
+    const modeName = MODES[note.modeId]?.name ?? note.modeId;
+    meta.textContent = `${time} · ${modeName} · ${this.formatDuration(note.duration)} · $${note.cost.toFixed(5)}`;
+
+    mainButton.appendChild(title);
+    mainButton.appendChild(meta);
+    mainButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.openSavedNote(note);
+    });
+
+    const deleteButton = document.createElement('button');
+    deleteButton.className = 'history-item-delete';
+    deleteButton.title = 'Delete Note';
+    deleteButton.innerHTML = '<i class="fas fa-trash"></i>';
+    deleteButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.deleteSavedNote(note);
+    });
+
+    item.appendChild(mainButton);
+    item.appendChild(deleteButton);
+    return item;
+  }
+
+  private async openSavedNote(note: Note): Promise<void> {
+    if (this.isRecording || this.isProcessing) {
+        this.recordingStatus.textContent = 'Please wait for the current process to finish.';
+        return;
+    }
+
+    // A copy of its own, so edits don't reach the history list unsaved.
+    this.currentNote = structuredClone(note);
+    this.allRawLapText = note.rawTranscription;
+    this.totalDurationMs = note.duration;
+
+    this.clearLapAudio();
+    this.renderRawTranscription();
+
+    const activeRendition = note.renditions.find(r => r.id === note.activeRenditionId);
+    if (activeRendition) {
+        await this.showRendition(activeRendition);
+    } else if (note.polishedNote) {
+        this.polishedNote.innerHTML = await marked.parse(note.polishedNote);
+        this.polishedNote.classList.remove('placeholder-active');
+    } else {
+        this.polishedNote.innerHTML = this.polishedNote.getAttribute('placeholder') || '';
+        this.polishedNote.classList.add('placeholder-active');
+    }
+    this.renderRenditionBar();
+
+    this.updateMetadataDisplay();
+    this.recordingStatus.textContent = 'Loaded saved note.';
+    this.loadSavedLapAudio(note.id);
+    this.renderHistoryList();
+    if (window.matchMedia("(max-width: 767px)").matches) {
+        this.closeHistoryPanel();
+    }
+  }
+
+  private async loadSavedLapAudio(noteId: string): Promise<void> {
+    try {
+      const audio = await this.noteStore.getLapAudio(noteId);
+      if (this.currentNote?.id !== noteId) return; // Another note was opened meanwhile
+      audio.forEach((blob, lapIndex) => this.addLapAudio(lapIndex, blob));
+      this.renderRawTranscription();
+    } catch (error) {
+      console.error('Error loading note audio:', error);
+    }
+  }
+
+  private async deleteSavedNote(note: Note): Promise<void> {
+    if (this.currentNote?.id === note.id && this.isSessionBusy()) {
+      this.recordingStatus.textContent = 'Stop the recording and let it finish processing before deleting this note.';
+      return;
+    }
+    if (!confirm(`Delete "${noteTitle(note)}"? This cannot be undone.`)) return;
+    try {
+      await this.noteStore.delete(note.id);
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      return;
+    }
+    if (this.currentNote?.id === note.id) {
+        this.createNewNote();
     }
+    await this.refreshHistory();
   }
 
   private handleResize(): void {
@@ -693,6 +1667,10 @@ class VoiceNotesApp {
     const actions = [
         { id: 'copy', icon: 'fa-copy', text: 'Copy Polished Note', action: () => this.copyPolishedNote() },
         { id: 'copyMeta', icon: 'fa-clipboard', text: 'Copy Metadata', action: () => this.copyMetadata() },
+        { id: 'exportMarkdown', icon: 'fa-file-arrow-down', text: 'Download .md', action: () => this.openMarkdownExportModal() },
+        { id: 'history', icon: 'fa-clock-rotate-left', text: 'Note History', action: () => this.openHistoryPanel() },
+        { id: 'recordingSettings', icon: 'fa-sliders', text: 'Recording Settings', action: () => this.openRecordingSettingsModal() },
+        { id: 'location', icon: 'fa-location-dot', text: 'Location', action: () => this.openLocationModal() },
         { id: 'theme', icon: 'fa-sun', text: 'Toggle Theme', action: () => this.toggleTheme() }
     ];
 
@@ -700,7 +1678,8 @@ class VoiceNotesApp {
         const button = document.createElement('button');
         button.className = 'more-menu-item';
         button.title = action.text;
-        button.addEventListener('click', () => {
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
             action.action();
             this.closeMoreMenu();
         });
@@ -741,9 +1720,21 @@ class VoiceNotesApp {
     this.totalDurationMs = 0;
     
     if (this.currentNote) {
+      // Each session is its own note, even when started from a loaded one.
+      this.currentNote.id = `note_${Date.now()}`;
+      this.currentNote.rawTranscription = '';
+      this.currentNote.polishedNote = '';
+      this.currentNote.laps = [];
+      this.currentNote.renditions = [];
+      this.currentNote.activeRenditionId = null;
       this.currentNote.timestamp = Date.now();
+      this.currentNote.timeZone = this.currentTimezone;
+      this.currentNote.location = this.newNoteLocation();
       this.currentNote.duration = 0;
       this.currentNote.audioSize = 0;
+      this.currentNote.codec = null;
+      this.currentNote.sampleRate = null;
+      this.currentNote.channels = null;
       this.currentNote.promptTokens = 0;
       this.currentNote.completionTokens = 0;
       this.currentNote.cost = 0;
@@ -757,21 +1748,53 @@ class VoiceNotesApp {
     this.polishedNote.innerHTML = polishedPlaceholder;
     this.polishedNote.classList.add('placeholder-active');
 
+    this.clearLapAudio();
+    this.renderRenditionBar();
     this.updateMetadataDisplay();
     this.showRecordingDialog();
     await this._startNextRecordingSegment();
+    this.startVoiceActivityDetection();
+    this.startInputLevelMonitor();
+    if (this.locationSettings.mode === 'geolocation' && this.currentNote && this.isRecording) {
+      this.locateNoteInBackground(this.currentNote);
+    }
   }
 
   private async stopFullRecordingSession(): Promise<void> {
-    if (!this.isRecording || this.isProcessing) return;
-    this.stopReason = 'stop';
-    this.mediaRecorder?.stop();
+    const segment = this.recordingSegment;
+    if (!this.isRecording || this.isProcessing || !segment || segment.endMs !== null) return;
+    this.setLiveControls(false); // The session is ending; no more laps or pauses
+    // A paused session has its time up to the pause counted already.
+    if (!this.isPaused) this.totalDurationMs += Date.now() - this.recordingStartTime;
+    segment.endMs = this.totalDurationMs;
+    segment.recorder.stop();
+    await Promise.all([this.segmentsStopped, segment.stopped]);
+    await this.finishSessionAndPolish();
   }
 
-  private async handleLap(): Promise<void> {
-    if (!this.isRecording || this.isPaused || this.isProcessing) return;
-    this.stopReason = 'lap';
-    this.mediaRecorder?.stop();
+  // Splits off the lap being recorded. The next lap's recorder starts on the
+  // same stream before this one stops, so no audio falls between them.
+  private async handleLap(auto: AutoLapReason | null = null): Promise<void> {
+    const segment = this.recordingSegment;
+    if (!this.isRecording || this.isPaused || this.isProcessing || !segment || segment.endMs !== null) return;
+    const now = Date.now();
+    this.totalDurationMs += now - this.recordingStartTime;
+    this.recordingStartTime = now;
+    segment.endMs = this.totalDurationMs;
+    segment.auto = auto;
+    try {
+      this.startSegmentRecorder();
+    } catch (error) {
+      // Without a recorder for the next lap, the session ends with this one.
+      console.error('Error starting the next lap:', error);
+      this.setLiveControls(false);
+      segment.recorder.stop();
+      await Promise.all([this.segmentsStopped, segment.stopped]);
+      await this.finishSessionAndPolish();
+      return;
+    }
+    segment.recorder.stop();
+    this.segmentsStopped = Promise.all([this.segmentsStopped, segment.stopped]).then(() => {});
   }
 
   private async handlePauseResume(): Promise<void> {
@@ -931,54 +1954,40 @@ class VoiceNotesApp {
 
   private async _startNextRecordingSegment(): Promise<void> {
     try {
-      this.audioChunks = [];
       if (!this.stream) {
           this.recordingStatus.textContent = 'Requesting microphone...';
           try {
-              this.stream = await navigator.mediaDevices.getUserMedia({audio: true});
+              this.stream = await navigator.mediaDevices.getUserMedia({ audio: captureConstraints(this.captureSettings) });
           } catch (err) {
-              console.error('Failed with basic constraints:', err);
-              this.stream = await navigator.mediaDevices.getUserMedia({
-                  audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
-              });
+              // The remembered microphone may have been unplugged.
+              if (this.captureSettings.deviceId) {
+                console.warn('Selected microphone is unavailable, using the default one:', err);
+              } else {
+                console.error('Failed with the capture settings:', err);
+              }
+              try {
+                  this.stream = await navigator.mediaDevices.getUserMedia({ audio: captureConstraints(this.captureSettings, false) });
+              } catch (defaultErr) {
+                  console.error('Failed with the default microphone:', defaultErr);
+                  this.stream = await navigator.mediaDevices.getUserMedia({
+                      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+                  });
+              }
           }
       }
 
       this.setupAudioVisualizer();
       this.drawLiveWaveform();
-      this.mediaRecorder = new MediaRecorder(this.stream, { mimeType: 'audio/webm' });
-
-      this.mediaRecorder.ondataavailable = (event) => {
-        if (event.data && event.data.size > 0)
-          this.audioChunks.push(event.data);
-      };
-
-      this.mediaRecorder.onstop = async () => {
-        // If the recorder was paused, the pre-pause duration is already in totalDurationMs.
-        // We only need to add the duration of the final active segment part.
-        if (!this.isPaused) {
-            const segmentDuration = Date.now() - this.recordingStartTime;
-            this.totalDurationMs += segmentDuration;
-        }
-        
-        if (this.audioChunks.length > 0) {
-            const audioBlob = new Blob(this.audioChunks, { type: this.mediaRecorder?.mimeType || 'audio/webm' });
-            if(this.currentNote) {
-                this.currentNote.audioSize += audioBlob.size;
-            }
-            await this.processAudioSegment(audioBlob);
-        } else { // No audio captured in this segment
-            if (this.stopReason === 'lap') {
-                await this._startNextRecordingSegment(); // Just restart for next lap
-            } else { // Final stop with no final audio
-                this.recordingStatus.textContent = 'Polishing note...';
-                await this.getPolishedNote();
-                this.resetToIdleState();
-            }
-        }
-      };
+      this.segmentsStopped = Promise.resolve();
+      this.startSegmentRecorder();
+      if (this.currentNote && !this.currentNote.codec) {
+        const settings = this.stream.getAudioTracks()[0]?.getSettings() ?? {};
+        this.currentNote.codec = codecFromMimeType(this.recorderMimeType());
+        this.currentNote.sampleRate = settings.sampleRate ?? this.audioContext?.sampleRate ?? null;
+        this.currentNote.channels = settings.channelCount ?? null;
+      }
 
-      this.mediaRecorder.start();
+      this.setLiveControls(true);
       this.recordingStartTime = Date.now();
       this.liveRecordingTitle.textContent = 'Recording...';
       if (this.timerIntervalId) clearInterval(this.timerIntervalId);
@@ -991,219 +2000,1744 @@ class VoiceNotesApp {
     }
   }
 
-  private async processAudioSegment(audioBlob: Blob): Promise<void> {
-    if (this.isProcessing) return;
+  // Starts recording the next lap on the session's stream.
+  private startSegmentRecorder(): void {
+    const recorder = new MediaRecorder(this.stream!, this.recordingMimeType ? { mimeType: this.recordingMimeType } : undefined);
+    let markStopped!: () => void;
+    const segment: RecordingSegment = {
+      recorder,
+      lapIndex: ++this.lapCount,
+      startMs: this.totalDurationMs,
+      endMs: null,
+      auto: null,
+      chunks: [],
+      stopped: new Promise(resolve => markStopped = resolve),
+    };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data && event.data.size > 0) {
+        segment.chunks.push(event.data);
+        this.persistRecordingChunk(segment, event.data);
+      }
+    };
+
+    recorder.onstop = () => {
+      if (segment.chunks.length > 0) {
+        const audioBlob = new Blob(segment.chunks, { type: recorder.mimeType || this.recorderMimeType() });
+        if (this.currentNote) {
+            this.currentNote.audioSize += audioBlob.size;
+        }
+        this.processAudioSegment(audioBlob, segment);
+      }
+      markStopped();
+    };
+
+    // A timeslice makes the recorder hand over audio regularly, so it can be
+    // flushed to storage instead of only existing in memory until the lap ends.
+    recorder.start(RECORDING_CHUNK_INTERVAL_MS);
+    this.mediaRecorder = recorder;
+    this.recordingSegment = segment;
+    this.lapStartDurationMs = segment.startMs;
+  }
+
+  private startVoiceActivityDetection(): void {
+    this.stopVoiceActivityDetection();
+    const settings = this.autoLapSettings;
+    if (!this.isRecording || (!settings.enabled && settings.autoStopSilenceSeconds <= 0)) return;
+    this.voiceActivity = new VoiceActivityDetector(settings);
+    // A timer rather than the waveform's animation frames, which stop in background tabs.
+    this.voiceActivityIntervalId = window.setInterval(() => this.checkVoiceActivity(), VOICE_ACTIVITY_INTERVAL_MS);
+  }
+
+  private stopVoiceActivityDetection(): void {
+    if (this.voiceActivityIntervalId) clearInterval(this.voiceActivityIntervalId);
+    this.voiceActivityIntervalId = null;
+    this.voiceActivity = null;
+  }
+
+  private checkVoiceActivity(): void {
+    if (!this.voiceActivity || !this.analyserNode || !this.isRecording || this.isPaused) return;
+    if (this.mediaRecorder?.state !== 'recording') return; // Between laps
+
+    const samples = new Uint8Array(this.analyserNode.fftSize);
+    this.analyserNode.getByteTimeDomainData(samples);
+    const sessionMs = this.totalDurationMs + (Date.now() - this.recordingStartTime);
+    const action = this.voiceActivity.update(timeDomainRms(samples), sessionMs, sessionMs - this.lapStartDurationMs);
+    if (action?.type === 'split') {
+      this.handleLap(action.reason);
+    } else if (action?.type === 'stop') {
+      this.stopVoiceActivityDetection();
+      this.stopFullRecordingSession();
+    }
+  }
+
+  private startInputLevelMonitor(): void {
+    this.stopInputLevelMonitor();
+    if (!this.isRecording) return;
+    this.inputLevel = new InputLevelMonitor({
+      ...DEFAULT_INPUT_LEVEL_OPTIONS,
+      silenceThreshold: this.autoLapSettings.silenceThreshold,
+    });
+    this.inputLevelIntervalId = window.setInterval(() => this.checkInputLevel(), INPUT_LEVEL_INTERVAL_MS);
+  }
+
+  private stopInputLevelMonitor(): void {
+    if (this.inputLevelIntervalId) clearInterval(this.inputLevelIntervalId);
+    this.inputLevelIntervalId = null;
+    this.inputLevel = null;
+    this.inputLevelRms.style.width = '0%';
+    this.inputLevelPeak.style.left = '0%';
+    this.showInputLevelWarning([]);
+  }
+
+  private checkInputLevel(): void {
+    if (!this.inputLevel || !this.analyserNode || !this.isRecording || this.isPaused) return;
+    if (this.mediaRecorder?.state !== 'recording') return; // Between laps
+
+    const samples = new Uint8Array(this.analyserNode.fftSize);
+    this.analyserNode.getByteTimeDomainData(samples);
+    const rms = timeDomainRms(samples);
+    const peak = timeDomainPeak(samples);
+    this.inputLevelRms.style.width = `${levelToMeter(rms) * 100}%`;
+    this.inputLevelPeak.style.left = `${levelToMeter(peak) * 100}%`;
+    const sessionMs = this.totalDurationMs + (Date.now() - this.recordingStartTime);
+    this.showInputLevelWarning(this.inputLevel.update(rms, peak, sessionMs));
+  }
+
+  private showInputLevelWarning(issues: InputLevelIssue[]): void {
+    const messages: string[] = [];
+    if (issues.includes('silence')) {
+      messages.push(`No sound for ${DEFAULT_INPUT_LEVEL_OPTIONS.silenceWarningSeconds}+ seconds. Is the microphone muted?`);
+    }
+    if (issues.includes('clipping')) {
+      messages.push('Input is clipping. Move away from the microphone or lower its gain.');
+    }
+    this.inputLevelWarning.textContent = messages.join(' ');
+    this.inputLevelWarning.style.display = messages.length > 0 ? 'block' : 'none';
+  }
+
+  private persistRecordingChunk(segment: RecordingSegment, blob: Blob): void {
+    if (!this.currentNote) return;
+    const chunk: RecordingChunk = {
+      noteId: this.currentNote.id,
+      lapIndex: segment.lapIndex,
+      lapStartMs: segment.startMs,
+      endMs: segment.endMs ?? this.totalDurationMs + (this.isPaused ? 0 : Date.now() - this.recordingStartTime),
+      mimeType: blob.type || this.recorderMimeType(),
+      recordedAt: Date.now(),
+      blob,
+    };
+    this.noteStore.saveRecordingChunk(chunk)
+      .catch(error => console.error('Error saving recording chunk:', error));
+  }
+
+  // Ends the recording session, waits for laps still being transcribed, then
+  // polishes with the dialog closed so the note can be watched (and
+  // cancelled) as it streams in.
+  private async finishSessionAndPolish(): Promise<void> {
+    this.resetToIdleState();
     this.isProcessing = true;
-    this.setLiveControls(false); // Disable buttons
-    this.lapCount++;
-    this.liveRecordingTitle.textContent = `Processing Lap ${this.lapCount}...`;
-    if (this.timerIntervalId) clearInterval(this.timerIntervalId);
+    this.fabRecord.disabled = true;
+    try {
+      if (this.lapQueue.pending > 0) {
+        this.recordingStatus.textContent = `Transcribing ${this.lapQueue.pending} remaining lap(s)...`;
+        await this.lapQueue.onIdle();
+      }
+      await this.getPolishedNote();
+    } finally {
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+    }
+  }
 
+  // Records the finished segment as a lap and queues its transcription, so
+  // recording can carry on without waiting for it. The lap audio is stored
+  // in the background too; the transcription waits for that, as the lap's
+  // recovery chunks are cleared once it is done.
+  private processAudioSegment(audioBlob: Blob, segment: RecordingSegment): void {
+    const endMs = segment.endMs ?? this.totalDurationMs;
+    const lap: NoteLap = {
+      index: segment.lapIndex, startMs: segment.startMs, endMs, audioSize: audioBlob.size,
+      mimeType: audioBlob.type,
+    };
+    if (segment.auto) lap.auto = segment.auto;
+    const inputEvents = this.inputLevel?.takeEvents(endMs) ?? [];
+    if (inputEvents.length > 0) lap.inputEvents = inputEvents;
+    const noteId = this.currentNote?.id;
+    const audioSaved = this.keepLapAudio(lap, audioBlob);
+    if (noteId) this.lapQueue.add(() => this.transcribeRecordedLap(noteId, lap, audioBlob, audioSaved));
+  }
+
+  // Transcribes a recorded lap once its audio has been stored. Its
+  // crash-recovery chunks are cleared only when both the lap's outcome and
+  // its audio are saved; otherwise they are the only copy of the recording.
+  private async transcribeRecordedLap(noteId: string, lap: NoteLap, audioBlob: Blob, audioSaved: Promise<boolean>): Promise<boolean> {
+    const stored = await audioSaved;
+    const transcribed = await this.transcribeLap(lap, audioBlob, this.lapHeader(lap));
+    if (stored) {
+      await this.noteStore.deleteRecordingChunks(noteId, lap.index)
+        .catch(error => console.error('Error clearing recording chunks:', error));
+    }
+    return transcribed;
+  }
+
+  // The format the recorder actually produces, which can differ from the one
+  // asked for, and is only known for certain once it has started.
+  private recorderMimeType(): string {
+    return this.mediaRecorder?.mimeType || this.recordingMimeType || 'audio/webm';
+  }
+
+  private setLapLanguages(lap: NoteLap, languages: string[]): void {
+    if (languages.length > 0) {
+      lap.languages = languages;
+    } else {
+      delete lap.languages;
+    }
+    if (this.currentNote?.laps.includes(lap)) this.updateMetadataDisplay();
+  }
+
+  private lapHeader(lap: NoteLap): string {
+    const label = lap.auto ? ` [auto: ${lap.auto === 'max-length' ? 'max length' : 'silence'}]` : '';
+    return `--- LAP ${lap.index} (${this.formatDuration(lap.startMs)} - ${this.formatDuration(lap.endMs)})${label} ---`;
+  }
+
+  // Transcribes a lap of the current note into its place in the transcript.
+  // A lap that still fails after the retries is marked as failed and queued
+  // so it can be attempted again later. Returns whether it succeeded.
+  // A cancelled transcription (through the signal) leaves the lap as it was
+  // and isn't queued for a retry.
+  private async transcribeLap(lap: NoteLap, audioBlob: Blob, header: string | null, signal?: AbortSignal): Promise<boolean> {
+    const note = this.currentNote;
+    const noteId = note?.id;
+    let lapText: string;
     try {
       const base64Audio = await this.blobToBase64(audioBlob);
       if (!base64Audio) throw new Error('Failed to convert audio');
+      const transcription = await this.getTranscription(base64Audio, lap.mimeType, header ? `Lap ${lap.index}` : 'file', note, signal);
+      lapText = transcription.text || '[No speech detected]';
+      this.setLapLanguages(lap, transcription.languages);
+      delete lap.transcriptionFailed;
+    } catch (error) {
+      if (signal?.aborted) return false;
+      console.error(`Error processing lap ${lap.index}:`, error);
+      lapText = FAILED_LAP_TEXT;
+      lap.transcriptionFailed = true;
+      if (noteId) {
+        this.noteStore.queueTranscription(noteId, lap.index, error instanceof Error ? error.message : String(error))
+          .catch(queueError => console.error('Error queueing lap for retry:', queueError));
+      }
+    }
 
-      const mimeType = this.mediaRecorder?.mimeType || 'audio/webm';
-      const transcriptionText = await this.getTranscription(base64Audio, mimeType);
-      
-      const segmentStartTime = this.formatDuration(this.totalDurationMs - (Date.now() - this.recordingStartTime));
-      const segmentEndTime = this.formatDuration(this.totalDurationMs);
-      const lapHeader = `\n\n--- LAP ${this.lapCount} (${segmentStartTime} - ${segmentEndTime}) ---\n\n`;
-      this.allRawLapText += lapHeader + (transcriptionText || '[No speech detected]');
-      
+    if (!noteId) return !lap.transcriptionFailed;
+    // The user may have moved on to another note while this lap was in flight.
+    await this.saveLapResult(noteId, lap, lapText, header, note);
+    if (lap.transcriptionFailed) {
+      this.recordingStatus.textContent = `Lap ${lap.index} could not be transcribed. It will be retried later.`;
+    }
+    return !lap.transcriptionFailed;
+  }
+
+  // Writes a lap's text into the note it belongs to. When that note is no
+  // longer on screen it is read back from storage right before writing, so
+  // nothing saved meanwhile is lost; `owner` stands in for a note that was
+  // never saved. Writes to stored notes run one at a time.
+  private saveLapResult(noteId: string, lap: NoteLap, lapText: string, header: string | null, owner: Note | null): Promise<void> {
+    if (this.currentNote?.id === noteId) {
+      const current = this.currentNote;
+      const currentLap = current.laps.find(l => l.index === lap.index);
+      if (currentLap && currentLap !== lap) this.copyLapOutcome(lap, currentLap);
+      this.allRawLapText = replaceLapText(this.allRawLapText, lap.index, lapText, header);
+      current.rawTranscription = this.allRawLapText;
+      this.renderRawTranscription();
+      this.updateMetadataDisplay();
+      return this.persistCurrentNote();
+    }
+    return this.storedNoteWrites.add(async () => {
+      // The note may have been opened while waiting for the write slot.
+      if (this.currentNote?.id === noteId) return this.saveLapResult(noteId, lap, lapText, header, owner);
+      const note = await this.noteStore.get(noteId) ?? owner;
+      if (!note) return;
+      const storedLap = note.laps.find(l => l.index === lap.index);
+      if (storedLap) {
+        this.copyLapOutcome(lap, storedLap);
+      } else {
+        note.laps.push({ ...lap });
+        note.laps.sort((a, b) => a.index - b.index);
+      }
+      note.rawTranscription = replaceLapText(note.rawTranscription, lap.index, lapText, header);
+      await this.noteStore.update(note);
+      if (this.historyPanel.classList.contains('show')) await this.refreshHistory();
+    });
+  }
+
+  private copyLapOutcome(from: NoteLap, to: NoteLap): void {
+    if (from.transcriptionFailed) {
+      to.transcriptionFailed = true;
+    } else {
+      delete to.transcriptionFailed;
+    }
+    if (from.languages) {
+      to.languages = from.languages;
+    } else {
+      delete to.languages;
+    }
+  }
+
+  // Re-transcribes one lap from its stored audio, for the current note or a
+  // saved one, and removes it from the retry queue when that works.
+  private async retryLapTranscription(noteId: string, lapIndex: number): Promise<boolean> {
+    const key = `${noteId}:${lapIndex}`;
+    if (this.retryingLaps.has(key)) return false;
+    this.retryingLaps.add(key);
+    try {
+      const isCurrent = this.currentNote?.id === noteId;
+      const note = isCurrent ? this.currentNote : await this.noteStore.get(noteId);
+      const lap = note?.laps.find(l => l.index === lapIndex);
+      const audioBlob = note ? (await this.noteStore.getLapAudio(noteId)).get(lapIndex) : undefined;
+      if (!note || !lap || !audioBlob) {
+        await this.noteStore.dequeueTranscription(noteId, lapIndex); // Nothing left to retry
+        return false;
+      }
+
+      const hasLapHeaders = new RegExp(LAP_HEADER_PATTERN.source, 'm').test(note.rawTranscription);
+      const header = hasLapHeaders ? this.lapHeader(lap) : null;
+      if (isCurrent) {
+        this.renderRawTranscription();
+        if (!await this.transcribeLap(lap, audioBlob, header)) return false;
+      } else {
+        const base64Audio = await this.blobToBase64(audioBlob);
+        if (!base64Audio) throw new Error('Failed to convert audio');
+        const transcription = await this.getTranscription(base64Audio, lap.mimeType, `Lap ${lap.index}`, note);
+        const lapText = transcription.text || '[No speech detected]';
+        this.setLapLanguages(lap, transcription.languages);
+        delete lap.transcriptionFailed;
+        // Written to a fresh copy of the note, or to the open note if the
+        // user opened it while this was in flight.
+        await this.saveLapResult(noteId, lap, lapText, header, note);
+      }
+      await this.noteStore.dequeueTranscription(noteId, lapIndex);
+      this.recordingStatus.textContent = isCurrent && note.renditions.length > 0
+        ? `Lap ${lapIndex} transcribed. Re-polish the note to include it.`
+        : `Lap ${lapIndex} of "${noteTitle(note)}" transcribed.`;
+      if (this.historyPanel.classList.contains('show')) await this.refreshHistory();
+      return true;
+    } catch (error) {
+      console.error(`Error retrying transcription of lap ${lapIndex}:`, error);
+      await this.noteStore.queueTranscription(noteId, lapIndex, error instanceof Error ? error.message : String(error))
+        .catch(queueError => console.error('Error queueing lap for retry:', queueError));
+      return false;
+    } finally {
+      this.retryingLaps.delete(key);
+      if (this.currentNote?.id === noteId) this.renderRawTranscription();
+    }
+  }
+
+  // Works through laps whose transcription failed earlier, oldest first.
+  // Runs on startup and whenever the browser comes back online.
+  private async drainTranscriptionQueue(): Promise<void> {
+    if (this.isDrainingTranscriptionQueue || !navigator.onLine) return;
+    this.isDrainingTranscriptionQueue = true;
+    try {
+      for (const item of await this.noteStore.getQueuedTranscriptions()) {
+        if (!navigator.onLine) break;
+        await this.retryLapTranscription(item.noteId, item.lapIndex);
+      }
+    } catch (error) {
+      console.error('Error processing the transcription queue:', error);
+    } finally {
+      this.isDrainingTranscriptionQueue = false;
+    }
+  }
+
+  // Looks for audio left behind by a session that never finished, e.g.
+  // because the tab crashed or was reloaded while recording.
+  private async checkForUnfinishedSessions(): Promise<void> {
+    try {
+      const sessions = new Map<string, RecordingChunk[]>();
+      for (const chunk of await this.noteStore.getRecordingChunks()) {
+        if (!sessions.has(chunk.noteId)) sessions.set(chunk.noteId, []);
+        sessions.get(chunk.noteId)!.push(chunk);
+      }
+      this.pendingRecoveries = [...sessions.values()];
+      await this.showNextRecovery();
+    } catch (error) {
+      console.error('Error checking for unfinished recordings:', error);
+    }
+  }
+
+  private async showNextRecovery(): Promise<void> {
+    const chunks = this.pendingRecoveries[0];
+    if (!chunks) {
+      this.closeRecoveryModal();
+      return;
+    }
+    const savedNote = await this.noteStore.get(chunks[0].noteId).catch(() => null);
+    const lapCount = new Set(chunks.map(chunk => chunk.lapIndex)).size;
+    const transcribedCount = savedNote?.laps.filter(lap => !lap.transcriptionFailed).length ?? 0;
+    const recordedAt = new Date(chunks[0].recordedAt).toLocaleString(undefined, {
+      dateStyle: 'medium', timeStyle: 'short', timeZone: this.currentTimezone,
+    });
+    const duration = this.formatDuration(Math.max(...chunks.map(chunk => chunk.endMs)));
+    this.recoveryDescription.textContent =
+      `A recording from ${recordedAt} (${duration}) was interrupted before it finished. ` +
+      `${lapCount} lap(s) of audio can be recovered` +
+      (transcribedCount > 0 ? ` and added to the ${transcribedCount} lap(s) already transcribed.` : '.');
+    this.recoveryModal.style.display = 'flex';
+  }
+
+  private closeRecoveryModal(): void {
+    this.recoveryModal.style.display = 'none';
+  }
+
+  private async discardUnfinishedSession(): Promise<void> {
+    const chunks = this.pendingRecoveries.shift();
+    if (!chunks) return;
+    if (!confirm('Discard the recovered audio? This cannot be undone.')) {
+      this.pendingRecoveries.unshift(chunks);
+      return;
+    }
+    try {
+      await this.noteStore.deleteRecordingChunks(chunks[0].noteId);
+    } catch (error) {
+      console.error('Error discarding recovered audio:', error);
+    }
+    await this.showNextRecovery();
+  }
+
+  // Rebuilds the interrupted session's note, transcribes the laps that were
+  // cut off, then polishes the whole note as if the session had ended.
+  private async recoverUnfinishedSession(): Promise<void> {
+    if (this.isRecording || this.isProcessing) {
+      this.recordingStatus.textContent = 'Please wait for the current process to finish.';
+      return;
+    }
+    const chunks = this.pendingRecoveries.shift();
+    this.closeRecoveryModal();
+    if (!chunks) return;
+
+    const noteId = chunks[0].noteId;
+    try {
+      const savedNote = await this.noteStore.get(noteId);
+      if (savedNote) {
+        await this.openSavedNote(savedNote);
+      } else {
+        this.createNewNote();
+        this.currentNote!.id = noteId;
+        this.currentNote!.timestamp = chunks[0].recordedAt - chunks[0].endMs;
+      }
+    } catch (error) {
+      console.error('Error loading the interrupted note:', error);
+      this.pendingRecoveries.unshift(chunks);
+      return;
+    }
+
+    const note = this.currentNote!;
+    this.isProcessing = true;
+    this.fabRecord.disabled = true;
+    try {
+      const laps = new Map<number, RecordingChunk[]>();
+      chunks.forEach(chunk => laps.set(chunk.lapIndex, [...(laps.get(chunk.lapIndex) ?? []), chunk]));
+
+      for (const [lapIndex, pieces] of [...laps.entries()].sort(([a], [b]) => a - b)) {
+        // Transcribed before the crash. A lap that failed is recovered again,
+        // as its audio may never have been stored.
+        const transcribed = note.laps.some(l => l.index === lapIndex && !l.transcriptionFailed);
+        if (transcribed && this.allRawLapText.includes(`--- LAP ${lapIndex} (`)) {
+          await this.noteStore.deleteRecordingChunks(noteId, lapIndex);
+          continue;
+        }
+        const mimeType = pieces[0].mimeType;
+        const audioBlob = new Blob(pieces.map(piece => piece.blob), { type: mimeType });
+        const lap: NoteLap = {
+          index: lapIndex,
+          startMs: pieces[0].lapStartMs,
+          endMs: pieces[pieces.length - 1].endMs,
+          audioSize: audioBlob.size,
+          mimeType,
+        };
+        const previous = note.laps.find(l => l.index === lapIndex);
+        note.laps = note.laps.filter(l => l !== previous);
+        note.audioSize += audioBlob.size - (previous?.audioSize ?? 0);
+        const audioSaved = this.keepLapAudio(lap, audioBlob);
+        this.lapQueue.add(() => this.transcribeRecordedLap(noteId, lap, audioBlob, audioSaved));
+      }
+      note.laps.sort((a, b) => a.index - b.index);
+      this.lapCount = note.laps.length > 0 ? note.laps[note.laps.length - 1].index : 0;
+      this.totalDurationMs = Math.max(note.duration, ...note.laps.map(lap => lap.endMs));
+      this.updateMetadataDisplay();
+
+      this.recordingStatus.textContent = 'Transcribing recovered audio...';
+      await this.lapQueue.onIdle();
+      await this.getPolishedNote();
+    } catch (error) {
+      console.error('Error recovering the interrupted recording:', error);
+      this.recordingStatus.textContent = `Error recovering recording: ${error instanceof Error ? error.message : String(error)}`;
+    } finally {
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+      this.updateMetadataDisplay();
+      if (this.pendingRecoveries.length > 0) await this.showNextRecovery();
+    }
+  }
+
+  private triggerFileUpload(): void {
+    if (this.isRecording || (this.isProcessing && !this.isUploadQueueRunning)) return;
+    this.audioUploadInput.click();
+  }
+
+  private handleFileUpload(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = [...(input.files ?? [])];
+    input.value = ''; // Reset for next selection
+    this.enqueueUploads(files);
+  }
+
+  private initDropZone(): void {
+    const appContainer = document.querySelector('.app-container') as HTMLElement;
+    const hasFiles = (e: DragEvent) => !!e.dataTransfer?.types.includes('Files');
+    let dragDepth = 0; // dragenter/dragleave also fire for every child element
+
+    document.addEventListener('dragenter', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth++;
+      appContainer.classList.add('drag-over');
+    });
+    document.addEventListener('dragover', (e) => {
+      if (hasFiles(e)) e.preventDefault();
+    });
+    document.addEventListener('dragleave', (e) => {
+      if (!hasFiles(e)) return;
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) appContainer.classList.remove('drag-over');
+    });
+    document.addEventListener('drop', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth = 0;
+      appContainer.classList.remove('drag-over');
+      this.enqueueUploads([...e.dataTransfer!.files]);
+    });
+  }
+
+  // Adds files to the batch upload queue; each becomes its own note,
+  // polished in the mode that is selected now.
+  private enqueueUploads(files: File[]): void {
+    const audioFiles = files.filter(file => file.type.startsWith('audio/'));
+    if (audioFiles.length < files.length) {
+        this.recordingStatus.textContent = audioFiles.length === 0
+          ? 'Error: Invalid file type. Please upload an audio file.'
+          : `Skipped ${files.length - audioFiles.length} file(s) that are not audio.`;
+        setTimeout(() => {
+            if (this.recordingStatus.textContent?.includes('Invalid file type')) {
+                this.recordingStatus.textContent = 'Ready to record';
+            }
+        }, 3000);
+    }
+    if (audioFiles.length === 0) return;
+
+    if (this.isRecording || (this.isProcessing && !this.isUploadQueueRunning)) {
+        this.recordingStatus.textContent = 'Please wait for the current process to finish.';
+        return;
+    }
+
+    const addedAt = Date.now();
+    audioFiles.forEach((file, i) => this.uploadQueue.push({
+      id: `upload_${addedAt}_${i}`, file, modeId: this.currentModeId, status: 'queued', error: null, noteId: null,
+    }));
+    this.isUploadQueueStopped = false;
+    this.uploadQueuePanel.style.display = 'flex';
+    this.renderUploadQueue();
+    this.processUploadQueue();
+  }
+
+  // Works through queued files one at a time until the queue is empty or stopped.
+  private async processUploadQueue(): Promise<void> {
+    if (this.isUploadQueueRunning) return;
+    this.isUploadQueueRunning = true;
+    try {
+      let item: UploadQueueItem | undefined;
+      while (!this.isUploadQueueStopped && (item = this.uploadQueue.find(i => i.status === 'queued'))) {
+        if (this.isRecording || this.isProcessing) break;
+        if (item.noteId) {
+          // Replace the note left by an earlier, failed or cancelled attempt.
+          await this.noteStore.delete(item.noteId).catch(error => console.error('Error deleting previous attempt:', error));
+        }
+
+        this.createNewNote();
+        const note = this.currentNote!;
+        note.modeId = item.modeId;
+        item.noteId = note.id;
+        item.error = null;
+        this.setUploadStatus(item, 'transcribing');
+
+        const current = item;
+        this.uploadAbortController = new AbortController();
+        this.isProcessing = true;
+        this.fabRecord.disabled = true;
+        try {
+          const result = await this.processUploadedFile(
+            item.file, item.modeId, this.uploadAbortController.signal, () => this.setUploadStatus(current, 'polishing'));
+          item.error = result.message;
+          this.setUploadStatus(item, this.uploadAbortController.signal.aborted ? 'cancelled' : result.status);
+        } finally {
+          this.uploadAbortController = null;
+          this.isProcessing = false;
+          this.fabRecord.disabled = false;
+          this.updateMetadataDisplay();
+        }
+      }
+    } finally {
+      this.isUploadQueueRunning = false;
+      this.renderUploadQueue();
+    }
+  }
+
+  // Stops the queue (cancelling the file in progress), or resumes it,
+  // including any files that were cancelled.
+  private toggleUploadQueue(): void {
+    if (this.isUploadQueueRunning && !this.isUploadQueueStopped) {
+      this.isUploadQueueStopped = true;
+      this.uploadAbortController?.abort();
+      this.polishAbortController?.abort();
+      this.renderUploadQueue();
+      return;
+    }
+    this.uploadQueue.filter(item => item.status === 'cancelled').forEach(item => { item.status = 'queued'; });
+    this.isUploadQueueStopped = false;
+    this.renderUploadQueue();
+    this.processUploadQueue();
+  }
+
+  private clearFinishedUploads(): void {
+    this.uploadQueue = this.uploadQueue.filter(item => !['done', 'failed', 'cancelled'].includes(item.status));
+    this.renderUploadQueue();
+    if (this.uploadQueue.length === 0) this.uploadQueuePanel.style.display = 'none';
+  }
+
+  private setUploadStatus(item: UploadQueueItem, status: UploadStatus): void {
+    item.status = status;
+    this.renderUploadQueue();
+  }
+
+  private renderUploadQueue(): void {
+    const queue = this.uploadQueue;
+    const finished = queue.filter(item => item.status === 'done').length;
+    const running = this.isUploadQueueRunning && !this.isUploadQueueStopped;
+    this.uploadQueueSummary.textContent = `Uploads: ${finished} of ${queue.length} done${this.isUploadQueueStopped ? ' (stopped)' : ''}`;
+
+    const canResume = queue.some(item => item.status === 'queued' || item.status === 'cancelled');
+    this.uploadQueueToggleButton.disabled = !running && !canResume;
+    this.uploadQueueToggleButton.title = running ? 'Stop the queue' : 'Resume the queue';
+    this.uploadQueueToggleButton.innerHTML = `<i class="fas ${running ? 'fa-stop' : 'fa-play'}"></i>`;
+    this.clearUploadQueueButton.disabled = !queue.some(item => ['done', 'failed', 'cancelled'].includes(item.status));
+
+    const statusLabels: Record<UploadStatus, string> = {
+      queued: 'Queued', transcribing: 'Transcribing...', polishing: 'Polishing...',
+      done: 'Done', failed: 'Failed', cancelled: 'Cancelled',
+    };
+    this.uploadQueueList.innerHTML = '';
+    for (const item of queue) {
+      const row = document.createElement('li');
+      row.className = `upload-queue-item ${item.status}`;
+
+      const main = document.createElement('div');
+      main.className = 'upload-queue-item-main';
+      const name = document.createElement('span');
+      name.className = 'upload-queue-item-name';
+      name.textContent = item.file.name;
+      name.title = item.file.name;
+      const status = document.createElement('span');
+      status.className = 'upload-queue-item-status';
+      status.textContent = item.error ? `${statusLabels[item.status]}: ${item.error}` : statusLabels[item.status];
+      main.append(name, status);
+      row.appendChild(main);
+
+      const action = this.createUploadItemAction(item);
+      if (action) row.appendChild(action);
+      this.uploadQueueList.appendChild(row);
+    }
+  }
+
+  private createUploadItemAction(item: UploadQueueItem): HTMLButtonElement | null {
+    const button = document.createElement('button');
+    button.className = 'upload-queue-action';
+    if (item.status === 'queued') {
+      button.title = 'Remove from the queue';
+      button.innerHTML = '<i class="fas fa-times"></i>';
+      button.addEventListener('click', () => {
+        this.uploadQueue = this.uploadQueue.filter(other => other !== item);
+        this.renderUploadQueue();
+      });
+    } else if (item.status === 'failed' || item.status === 'cancelled') {
+      button.title = 'Try this file again';
+      button.innerHTML = '<i class="fas fa-redo"></i>';
+      button.addEventListener('click', () => {
+        this.setUploadStatus(item, 'queued');
+        this.isUploadQueueStopped = false;
+        this.processUploadQueue();
+      });
+    } else if (item.status === 'done' && item.noteId) {
+      const noteId = item.noteId;
+      button.title = 'Open note';
+      button.innerHTML = '<i class="fas fa-folder-open"></i>';
+      button.addEventListener('click', async () => {
+        const note = await this.noteStore.get(noteId).catch(() => null);
+        if (note) await this.openSavedNote(note);
+      });
+    } else {
+      return null;
+    }
+    return button;
+  }
+
+  // Transcribes an audio file into the current note, then polishes it with
+  // the given mode. Long files are split into chunks first.
+  private async processUploadedFile(
+    file: File,
+    modeId: ModeID,
+    signal: AbortSignal,
+    onPolishing: () => void,
+  ): Promise<{ status: 'done' | 'failed'; message: string | null }> {
+    try {
+        if (this.currentNote) {
+            this.currentNote.audioSize = file.size;
+            this.currentNote.duration = 0; // Unknown until the file is decoded
+            this.totalDurationMs = 0;
+        }
+        this.updateMetadataDisplay();
+
+        this.recordingStatus.textContent = `Decoding ${file.name}...`;
+        const fileInfo = await readAudioFileInfo(file);
+        const decoded = await this.decodeUpload(file);
+        if (signal.aborted) return { status: 'failed', message: null };
+        const durationMs = decoded ? Math.round(decoded.samples.length / decoded.sampleRate * 1000) : 0;
+        if (this.currentNote) {
+            this.currentNote.duration = durationMs;
+            this.currentNote.codec = fileInfo.codec;
+            this.currentNote.sampleRate = fileInfo.sampleRate;
+            this.currentNote.channels = fileInfo.channels ?? decoded?.channels ?? null;
+            // Date the note by when the audio was recorded rather than uploaded.
+            if (fileInfo.recordedAt !== null) this.currentNote.timestamp = fileInfo.recordedAt;
+            this.totalDurationMs = durationMs;
+            this.updateMetadataDisplay();
+        }
+
+        let warning: string | null = null;
+        // Long files are split up, and large ones are re-encoded as compact
+        // WAV even when short enough to fit in a single chunk.
+        if (decoded && (durationMs > DEFAULT_CHUNKING_OPTIONS.maxChunkSeconds * 1000 || file.size > MAX_INLINE_UPLOAD_BYTES)) {
+            const { succeeded, total } = await this.transcribeUploadInChunks(file.name, decoded.samples, decoded.sampleRate, signal);
+            if (signal.aborted) return { status: 'failed', message: null };
+            if (succeeded === 0) {
+                return {
+                  status: 'failed',
+                  message: total === 1
+                    ? 'Transcription failed. It will be retried later.'
+                    : `None of the ${total} chunks could be transcribed. They will be retried later.`,
+                };
+            }
+            if (succeeded < total) warning = `${total - succeeded} of ${total} chunks failed and will be retried later.`;
+        } else {
+            if (!decoded && file.size > MAX_INLINE_UPLOAD_BYTES) {
+                throw new Error('This file is too large to send in one request, and the browser could not decode it to split it up.');
+            }
+            this.recordingStatus.textContent = `Processing ${file.name}...`;
+            const lap: NoteLap = { index: 1, startMs: 0, endMs: durationMs, audioSize: file.size, mimeType: file.type };
+            await this.keepLapAudio(lap, file);
+            if (!await this.transcribeLap(lap, file, null, signal)) {
+                if (signal.aborted) return { status: 'failed', message: null };
+                return { status: 'failed', message: 'Transcription failed. It will be retried later.' };
+            }
+        }
+
+        if (signal.aborted) return { status: 'failed', message: null };
+        onPolishing();
+        await this.getPolishedNote(modeId);
+        if (!this.currentNote?.renditions.length) return { status: 'failed', message: 'Polishing failed.' };
+        if (warning) this.recordingStatus.textContent = `${warning} The note was polished from the rest.`;
+        return { status: 'done', message: warning };
+    } catch (error) {
+        console.error('Error processing uploaded file:', error);
+        const errorMessage = error instanceof Error ? error.message : "Upload failed";
+        this.recordingStatus.textContent = `Error: ${errorMessage}`;
+        return { status: 'failed', message: errorMessage };
+    }
+  }
+
+  // Decodes an uploaded file to mono samples at UPLOAD_SAMPLE_RATE, or returns
+  // null if the browser cannot decode the format.
+  private async decodeUpload(file: File): Promise<{ samples: Float32Array; sampleRate: number; channels: number } | null> {
+    try {
+      const context = new OfflineAudioContext(1, 1, UPLOAD_SAMPLE_RATE);
+      // The file's bytes are handed over to the decoder, and only the mono
+      // samples outlive this call, so a long file is held in memory once.
+      const buffer = await context.decodeAudioData(await file.arrayBuffer());
+      return { samples: downmixToMono(buffer), sampleRate: buffer.sampleRate, channels: buffer.numberOfChannels };
+    } catch (error) {
+      console.warn(`Could not decode ${file.name}; it will be sent as is:`, error);
+      return null;
+    }
+  }
+
+  // Splits decoded audio into chunks (at quiet spots where possible) and
+  // transcribes each as a lap of its own. Chunks that fail are queued for a
+  // retry, so the caller can go on with whatever did transcribe.
+  private async transcribeUploadInChunks(
+    fileName: string, samples: Float32Array, sampleRate: number, signal: AbortSignal,
+  ): Promise<{ succeeded: number; total: number }> {
+    const starts = findChunkStarts(samples, sampleRate);
+    const total = starts.length;
+    const toMs = (offset: number) => Math.round(offset / sampleRate * 1000);
+    let finished = 0;
+    let succeeded = 0;
+
+    const transcriptions: Promise<void>[] = [];
+    let created = 0;
+    for (let i = 0; i < total; i++) {
+      if (signal.aborted) break;
+      const start = starts[i];
+      const end = starts[i + 1] ?? samples.length;
+      const lap: NoteLap = {
+        index: i + 1, startMs: toMs(start), endMs: toMs(end), audioSize: 44 + (end - start) * 2, mimeType: 'audio/wav',
+      };
+      this.currentNote?.laps.push(lap);
+      created++;
+      // Chunks are encoded when their turn comes, so only the ones in
+      // flight are held as WAV at once.
+      transcriptions.push(this.lapQueue.add(async () => {
+        if (signal.aborted) return;
+        const audioBlob = encodeWav(samples.subarray(start, end), sampleRate);
+        await this.storeLapAudio(lap, audioBlob);
+        if (await this.transcribeLap(lap, audioBlob, total > 1 ? this.lapHeader(lap) : null, signal)) succeeded++;
+        finished++;
+        this.recordingStatus.textContent = `Transcribing ${fileName}: ${finished} of ${total} chunks done...`;
+      }));
+    }
+    this.lapCount = created;
+    await Promise.all(transcriptions);
+    return { succeeded, total };
+  }
+
+  // Records the lap on the current note and keeps its audio for playback.
+  // Returns whether the audio was stored.
+  private async keepLapAudio(lap: NoteLap, blob: Blob): Promise<boolean> {
+    if (!this.currentNote) return false;
+    this.currentNote.laps.push(lap);
+    return this.storeLapAudio(lap, blob);
+  }
+
+  // Keeps a lap's audio for playback and stores it with the current note.
+  // Returns whether it was stored.
+  private async storeLapAudio(lap: NoteLap, blob: Blob): Promise<boolean> {
+    if (!this.currentNote) return false;
+    this.addLapAudio(lap.index, blob);
+    try {
+      await this.noteStore.saveLapAudio(this.currentNote.id, lap.index, blob);
+      return true;
+    } catch (error) {
+      console.error(`Error saving audio for lap ${lap.index}:`, error);
+      return false;
+    }
+  }
+
+  private addLapAudio(lapIndex: number, blob: Blob): void {
+    const existingUrl = this.lapAudioUrls.get(lapIndex);
+    if (existingUrl) URL.revokeObjectURL(existingUrl);
+    this.lapAudioUrls.set(lapIndex, URL.createObjectURL(blob));
+    this.renderLapAudioTabs();
+  }
+
+  private clearLapAudio(): void {
+    this.lapAudioPlayer.pause();
+    this.lapAudioPlayer.removeAttribute('src');
+    this.lapAudioPlayer.load();
+    this.lapAudioUrls.forEach(url => URL.revokeObjectURL(url));
+    this.lapAudioUrls.clear();
+    this.currentPlaybackLap = null;
+    this.renderLapAudioTabs();
+  }
+
+  private renderLapAudioTabs(): void {
+    this.lapAudioTabs.innerHTML = '';
+    const lapIndexes = [...this.lapAudioUrls.keys()].sort((a, b) => a - b);
+    this.audioPlayerBar.style.display = lapIndexes.length > 0 ? 'flex' : 'none';
+    if (lapIndexes.length > 0 && this.currentPlaybackLap === null) {
+        this.currentPlaybackLap = lapIndexes[0];
+        this.lapAudioPlayer.src = this.lapAudioUrls.get(lapIndexes[0])!;
+    }
+
+    lapIndexes.forEach(lapIndex => {
+        const tab = document.createElement('button');
+        tab.className = 'lap-audio-tab';
+        tab.textContent = lapIndexes.length === 1 && lapIndex === 1 ? 'Audio' : `Lap ${lapIndex}`;
+        if (lapIndex === this.currentPlaybackLap) tab.classList.add('active');
+        tab.addEventListener('click', () => this.seekLapAudio(lapIndex, 0, false));
+        this.lapAudioTabs.appendChild(tab);
+    });
+  }
+
+  private seekLapAudio(lapIndex: number, offsetMs: number, autoplay = true): void {
+    const url = this.lapAudioUrls.get(lapIndex);
+    if (!url) return;
+
+    const player = this.lapAudioPlayer;
+    const seek = () => {
+      player.currentTime = offsetMs / 1000;
+      if (autoplay) player.play().catch(err => console.warn('Audio playback failed:', err));
+    };
+
+    if (this.currentPlaybackLap !== lapIndex) {
+      this.currentPlaybackLap = lapIndex;
+      player.src = url;
+      player.addEventListener('loadedmetadata', seek, { once: true });
+      player.load();
+      this.renderLapAudioTabs();
+    } else {
+      seek();
+    }
+  }
+
+  private playNextLapAudio(): void {
+    if (this.currentPlaybackLap === null) return;
+    const next = [...this.lapAudioUrls.keys()].sort((a, b) => a - b).find(i => i > this.currentPlaybackLap!);
+    if (next !== undefined) this.seekLapAudio(next, 0);
+  }
+
+  // Renders the raw transcript from its parsed segment model. Lap headers and
+  // timestamped lines become links that seek the lap audio to that point.
+  private renderRawTranscription(): void {
+    this.rawTranscription.innerHTML = '';
+    if (!this.allRawLapText) {
+        this.rawTranscription.textContent = this.rawTranscription.getAttribute('placeholder') || '';
+        this.rawTranscription.classList.add('placeholder-active');
+        return;
+    }
+    this.rawTranscription.classList.remove('placeholder-active');
+
+    let laps: TranscriptLap[];
+    try {
+      laps = parseSessionTranscript(this.allRawLapText, this.currentNote?.laps);
+    } catch (error) {
+      console.error('Error parsing transcript, showing it as plain text:', error);
       this.rawTranscription.textContent = this.allRawLapText;
-      if (this.rawTranscription.classList.contains('placeholder-active')) {
-          this.rawTranscription.classList.remove('placeholder-active');
+      return;
+    }
+
+    const lines: HTMLElement[] = [];
+    for (const lap of laps) {
+        const retryButton = this.createLapRetryButton(lap.index);
+        if (lap.header) {
+            const header = document.createElement('span');
+            header.className = 'transcript-lap-header';
+            const label = document.createElement('span');
+            label.textContent = lap.header;
+            this.makeSeekable(label, lap.index, 0);
+            header.appendChild(label);
+            const inputWarning = this.createLapInputWarning(lap.index);
+            if (inputWarning) header.appendChild(inputWarning);
+            if (retryButton) header.appendChild(retryButton);
+            lines.push(header);
+        } else if (retryButton) {
+            lines.push(retryButton);
+        }
+        for (const segment of lap.segments) {
+            lines.push(this.createTranscriptLine(lap.index, segment));
+        }
+    }
+
+    lines.forEach((line, i) => {
+        if (i > 0) this.rawTranscription.appendChild(document.createTextNode('\n'));
+        this.rawTranscription.appendChild(line);
+    });
+  }
+
+  // Flags laps where the microphone was silent or clipping while recording,
+  // which often explains a poor or empty transcription.
+  private createLapInputWarning(lapIndex: number): HTMLElement | null {
+    const events = this.currentNote?.laps.find(l => l.index === lapIndex)?.inputEvents;
+    if (!events || events.length === 0) return null;
+    const describe = (event: InputLevelEvent) =>
+      `${event.type === 'silence' ? 'Silent' : 'Clipping'} ${this.formatDuration(event.startMs)} - ${this.formatDuration(event.endMs)}`;
+    const icon = document.createElement('i');
+    icon.className = 'fas fa-triangle-exclamation lap-input-warning';
+    icon.title = events.map(describe).join('\n');
+    return icon;
+  }
+
+  // Offered for any lap with stored audio, so a flaky lap can be redone
+  // without re-recording. Failed laps get a more prominent button.
+  private createLapRetryButton(lapIndex: number): HTMLButtonElement | null {
+    const note = this.currentNote;
+    const lap = note?.laps.find(l => l.index === lapIndex);
+    if (!note || !lap || !this.lapAudioUrls.has(lapIndex)) return null;
+
+    const retrying = this.retryingLaps.has(`${note.id}:${lapIndex}`);
+    const button = document.createElement('button');
+    button.className = 'lap-retry-button';
+    button.classList.toggle('failed', !!lap.transcriptionFailed);
+    button.disabled = retrying || this.isProcessing;
+    button.title = 'Transcribe this lap again';
+    button.innerHTML = `<i class="fas fa-redo${retrying ? ' fa-spin' : ''}"></i> <span>${retrying ? 'Retrying...' : 'Retry'}</span>`;
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (!lap.transcriptionFailed && !confirm(`Transcribe lap ${lapIndex} again? Its current text will be replaced.`)) return;
+      this.retryLapTranscription(note.id, lapIndex);
+    });
+    return button;
+  }
+
+  private createTranscriptLine(lapIndex: number, segment: TranscriptSegment): HTMLElement {
+    const line = document.createElement('span');
+    line.className = `transcript-${segment.kind}`;
+    if (segment.kind === 'text') {
+        line.textContent = segment.raw;
+        return line;
+    }
+
+    if (segment.startMs !== null) {
+        const time = document.createElement('span');
+        time.className = 'transcript-time';
+        time.textContent = `[${this.formatDuration(segment.startMs)}] `;
+        line.appendChild(time);
+    }
+    if (segment.speaker) {
+        const speaker = document.createElement('span');
+        speaker.className = 'transcript-speaker';
+        speaker.textContent = `${segment.speaker}: `;
+        line.appendChild(speaker);
+    }
+    segment.parts.forEach((part, i) => {
+        if (i > 0) line.appendChild(document.createTextNode(' '));
+        if (part.type === 'words') {
+            line.appendChild(document.createTextNode(part.text));
+            return;
+        }
+        const marker = document.createElement('span');
+        marker.className = 'transcript-marker';
+        marker.textContent = part.type === 'background' ? `[BACKGROUND: ${part.text}]` : `[${part.type.toUpperCase()}]`;
+        line.appendChild(marker);
+    });
+
+    if (segment.offsetMs !== null) this.makeSeekable(line, lapIndex, segment.offsetMs);
+    return line;
+  }
+
+  private makeSeekable(element: HTMLElement, lapIndex: number, offsetMs: number): void {
+    if (!this.lapAudioUrls.has(lapIndex)) return;
+    element.classList.add('transcript-seek');
+    element.title = 'Play from here';
+    element.addEventListener('click', () => this.seekLapAudio(lapIndex, offsetMs));
+  }
+
+  private async blobToBase64(blob: Blob): Promise<string> {
+      const reader = new FileReader();
+      const readResult = new Promise<string>((resolve, reject) => {
+        reader.onloadend = () => {
+          try {
+            resolve((reader.result as string).split(',')[1]);
+          } catch (err) {
+            reject(err);
+          }
+        };
+        reader.onerror = () => reject(reader.error);
+      });
+      reader.readAsDataURL(blob);
+      return readResult;
+  }
+
+  // Transcribes audio, retrying transient API errors with backoff. Usage is
+  // added to the given note. Throws once the retries are used up.
+  private async getTranscription(
+    base64Audio: string, mimeType: string, context = 'file', note: Note | null = this.currentNote, signal?: AbortSignal,
+  ): Promise<{ text: string; languages: string[] }> {
+    this.recordingStatus.textContent = `Transcribing ${context}...`;
+    const contents = {
+        parts: [
+          {text: 'Transcribe this audio with the following format:\n\n[TIMESTAMP] SPEAKER: exact spoken words\n\nInclude timestamps every 10-15 seconds, detect different speakers (Speaker 1, Speaker 2, etc.), mark pauses with [PAUSE], unclear words with [UNCLEAR], and background sounds with [BACKGROUND: description]. Capture everything exactly as spoken including filler words, repetitions, and false starts.\n\n' + languageInstruction(this.spokenLanguages)},
+          {inlineData: {mimeType: baseMimeType(mimeType), data: base64Audio}},
+        ],
+    };
+    try {
+      const response = await withRetry<GenerateContentResponse>(
+        () => this.genAI.models.generateContent({ model: MODEL_NAME, contents: contents, config: { abortSignal: signal } }),
+        {
+          signal,
+          onRetry: (attempt, delayMs) => {
+            this.recordingStatus.textContent = `Transcribing ${context} failed, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`;
+          },
+        },
+      );
+      
+      if (response.usageMetadata && note) {
+        note.promptTokens += response.usageMetadata.promptTokenCount ?? 0;
+        note.completionTokens += response.usageMetadata.candidatesTokenCount ?? 0;
+        this.updateNoteCost(note);
+        if (note === this.currentNote) this.updateMetadataDisplay();
+      }
+      return extractLanguages(response.text ?? '');
+    } catch (error) {
+      console.error(`Error getting transcription for ${context}:`, error);
+      this.recordingStatus.textContent = `Error transcribing ${context}.`;
+      throw error;
+    }
+  }
+
+  private openCompareModal(): void {
+    if (this.isRecording || !this.allRawLapText.trim()) return;
+    this.compareModeOptions.innerHTML = '';
+    for (const key in MODES) {
+        const mode = MODES[key];
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.value = mode.id;
+        checkbox.checked = mode.id === this.currentModeId;
+        checkbox.addEventListener('change', () => this.updateCompareButtonState());
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(mode.name));
+        this.compareModeOptions.appendChild(label);
+    }
+    this.compareColumns.innerHTML = '';
+    this.updateCompareButtonState();
+    this.compareModal.style.display = 'flex';
+  }
+
+  private closeCompareModal(): void {
+    this.compareModal.style.display = 'none';
+  }
+
+  private selectedCompareModes(): Mode[] {
+    return Array.from(this.compareModeOptions.querySelectorAll<HTMLInputElement>('input:checked'))
+        .map(input => MODES[input.value as ModeID])
+        .filter(Boolean);
+  }
+
+  private updateCompareButtonState(): void {
+    this.runCompareButton.disabled = this.isProcessing || this.selectedCompareModes().length < 2;
+  }
+
+  // Polishes the transcript with every selected mode in parallel and shows
+  // the results in columns, each with its own usage figures.
+  private async runModeComparison(): Promise<void> {
+    const modes = this.selectedCompareModes();
+    if (modes.length < 2 || this.isRecording || this.isProcessing || !this.currentNote) return;
+
+    this.isProcessing = true;
+    this.fabRecord.disabled = true;
+    this.updateCompareButtonState();
+    this.compareColumns.innerHTML = '';
+    this.recordingStatus.textContent = `Comparing ${modes.length} modes...`;
+
+    const note = this.currentNote;
+    const runs = modes.map(async mode => {
+      const column = this.createCompareColumn(mode);
+      try {
+        const rendition = await this.requestRendition(mode, async (markdown) => {
+          column.body.classList.remove('pending');
+          column.body.innerHTML = await marked.parse(markdown);
+        });
+        if (!rendition) throw new Error('Polishing returned empty.');
+        if (this.currentNote === note) note.renditions.push(rendition);
+        await this.fillCompareColumn(column, rendition);
+      } catch (error) {
+        console.error(`Error polishing as ${mode.name}:`, error);
+        column.body.classList.remove('pending');
+        column.body.classList.add('failed');
+        column.body.textContent = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
-      if(this.currentNote) this.currentNote.rawTranscription = this.allRawLapText;
+    });
 
+    try {
+      await Promise.all(runs);
+      this.recordingStatus.textContent = 'Comparison finished.';
+    } finally {
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+      this.updateCompareButtonState();
+      this.renderRenditionBar();
+      this.updateMetadataDisplay();
+      await this.persistCurrentNote();
+    }
+  }
+
+  private createCompareColumn(mode: Mode): { root: HTMLDivElement; usage: HTMLDivElement; body: HTMLDivElement; footer: HTMLDivElement } {
+    const root = document.createElement('div');
+    root.className = 'compare-column';
+
+    const header = document.createElement('div');
+    header.className = 'compare-column-header';
+    const title = document.createElement('h4');
+    title.textContent = mode.name;
+    const usage = document.createElement('div');
+    usage.className = 'compare-usage';
+    usage.textContent = '-- / -- tokens · $0.00000';
+    header.appendChild(title);
+    header.appendChild(usage);
+
+    const body = document.createElement('div');
+    body.className = 'compare-body pending';
+    body.textContent = 'Polishing...';
+
+    const footer = document.createElement('div');
+    footer.className = 'compare-column-footer';
+
+    root.appendChild(header);
+    root.appendChild(body);
+    root.appendChild(footer);
+    this.compareColumns.appendChild(root);
+    return { root, usage, body, footer };
+  }
+
+  private async fillCompareColumn(
+    column: { usage: HTMLDivElement; body: HTMLDivElement; footer: HTMLDivElement },
+    rendition: Rendition,
+  ): Promise<void> {
+    column.usage.textContent = `${rendition.promptTokens} / ${rendition.completionTokens} tokens · $${rendition.cost.toFixed(5)}`;
+    column.body.classList.remove('pending');
+    column.body.innerHTML = await marked.parse(rendition.markdown);
+
+    const useButton = document.createElement('button');
+    useButton.className = 'modal-button primary';
+    useButton.textContent = 'Use this';
+    useButton.addEventListener('click', async () => {
+        await this.showRendition(rendition);
+        this.renderRenditionBar();
+        this.updateMetadataDisplay();
+        await this.persistCurrentNote();
+        this.closeCompareModal();
+    });
+    column.footer.appendChild(useButton);
+  }
+
+  private async getPolishedNote(modeId: ModeID = this.currentModeId): Promise<void> {
+    // When the note already has a rendition, a failure must not wipe it from view.
+    const hasRendition = (this.currentNote?.renditions.length ?? 0) > 0;
+    try {
+      if (!this.polishableTranscript().trim()) {
+        this.recordingStatus.textContent = 'No transcription to polish';
+        this.polishedNote.innerHTML = '<p><em>No transcription available to polish.</em></p>';
+        this.polishedNote.classList.add('placeholder-active');
+        return;
+      }
+      const mode = MODES[modeId] || MODES.journal;
+      this.recordingStatus.textContent = hasRendition ? `Polishing as ${mode.name}...` : 'Polishing note...';
+      if (!hasRendition) {
+        this.polishedNote.innerHTML = '<p><em>Polishing note...</em></p>';
+        this.polishedNote.classList.add('placeholder-active');
+      }
+
+      this.polishAbortController = new AbortController();
+      this.cancelPolishButton.style.display = 'flex';
+      const rendition = await this.requestRendition(
+        mode,
+        async (markdown) => {
+          this.polishedNote.innerHTML = await marked.parse(markdown);
+          this.polishedNote.classList.remove('placeholder-active');
+        },
+        this.polishAbortController.signal,
+      );
+      if (rendition) {
+        await this.addRendition(rendition);
+        this.recordingStatus.textContent = rendition.partial
+          ? 'Polishing cancelled. The partial note was kept.'
+          : 'Note polished. Ready for next recording.';
+        if (!rendition.partial && this.translationLanguages.length > 0) {
+          await this.translateAutomatically(rendition, this.polishAbortController.signal);
+        }
+      } else if (this.polishAbortController.signal.aborted) {
+        this.recordingStatus.textContent = 'Polishing cancelled.';
+        if (hasRendition) {
+          await this.restoreActiveRendition();
+        } else {
+          this.polishedNote.innerHTML = '<p><em>Polishing was cancelled. Raw transcription is available.</em></p>';
+          this.polishedNote.classList.add('placeholder-active');
+        }
+      } else if (hasRendition) {
+        this.recordingStatus.textContent = `Polishing as ${mode.name} returned empty.`;
+        await this.restoreActiveRendition();
+      } else {
+        this.recordingStatus.textContent = 'Polishing failed or returned empty.';
+        this.polishedNote.innerHTML = '<p><em>Polishing returned empty. Raw transcription is available.</em></p>';
+        this.polishedNote.classList.add('placeholder-active');
+      }
     } catch (error) {
-        console.error('Error processing audio segment:', error);
-        this.recordingStatus.textContent = 'Error processing segment.';
+      console.error('Error polishing note:', error);
+      if (hasRendition) {
+        this.recordingStatus.textContent = `Error polishing note: ${error instanceof Error ? error.message : String(error)}`;
+        await this.restoreActiveRendition();
+      } else {
+        this.recordingStatus.textContent = 'Error polishing note. Please try again.';
+        this.polishedNote.innerHTML = `<p><em>Error during polishing: ${error instanceof Error ? error.message : String(error)}</em></p>`;
+        this.polishedNote.classList.add('placeholder-active');
+        const retryButton = document.createElement('button');
+        retryButton.className = 'polish-retry-button';
+        retryButton.innerHTML = '<i class="fas fa-redo"></i> <span>Retry polishing</span>';
+        retryButton.addEventListener('click', () => this.repolishNote(modeId));
+        this.polishedNote.appendChild(retryButton);
+      }
     } finally {
-        if (this.stopReason === 'lap') {
-            await this._startNextRecordingSegment();
-        } else { // 'stop'
-            this.liveRecordingTitle.textContent = 'Polishing final note...';
-            await this.getPolishedNote();
-            this.resetToIdleState();
+        this.polishAbortController = null;
+        this.cancelPolishButton.style.display = 'none';
+        this.updateMetadataDisplay();
+        this.renderRenditionBar();
+        await this.persistCurrentNote();
+    }
+  }
+
+  // Polishes the current transcript with the mode, streaming the markdown
+  // received so far to onText. Usage is added to the note's totals. If the
+  // signal aborts, whatever arrived is returned as a partial rendition;
+  // returns null when no text arrived at all.
+  private async requestRendition(
+    mode: Mode,
+    onText?: (markdown: string) => void | Promise<void>,
+    signal?: AbortSignal,
+  ): Promise<Rendition | null> {
+    const { text, promptTokens, completionTokens } = await this.streamGeneration(
+      this.buildPolishPrompt(mode), `Polishing as ${mode.name}`, onText, signal,
+    );
+    if (!text) return null;
+    return {
+      id: `rendition_${Date.now()}_${mode.id}`,
+      modeId: mode.id,
+      markdown: text,
+      createdAt: Date.now(),
+      promptTokens,
+      completionTokens,
+      cost: this.calculateCost(promptTokens, completionTokens),
+      ...(signal?.aborted ? { partial: true } : {}),
+    };
+  }
+
+  // Streams a completion for the prompt, passing the text received so far to
+  // onText. Usage is added to the note's totals. Text that arrived before the
+  // signal aborted is returned rather than thrown away.
+  private async streamGeneration(
+    prompt: string,
+    activity: string,
+    onText?: (text: string) => void | Promise<void>,
+    signal?: AbortSignal,
+  ): Promise<{ text: string; promptTokens: number; completionTokens: number }> {
+    let text = '';
+    let usageMetadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined;
+
+    try {
+      // Only retry while nothing has been streamed yet, so text never repeats.
+      const stream = await withRetry<AsyncGenerator<GenerateContentResponse>>(
+        () => this.genAI.models.generateContentStream({
+          model: MODEL_NAME,
+          contents: prompt,
+          config: { abortSignal: signal },
+        }),
+        {
+          signal,
+          onRetry: (attempt, delayMs) => {
+            this.recordingStatus.textContent = `${activity} failed, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`;
+          },
+        },
+      );
+      for await (const chunk of stream) {
+        // Usage is cumulative; the final chunk carries the complete figures.
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        if (chunk.text) {
+          text += chunk.text;
+          await onText?.(text);
         }
-        this.isProcessing = false;
-        this.setLiveControls(true); // Re-enable buttons if continuing
+        if (signal?.aborted) break;
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    }
+
+    const promptTokens = usageMetadata?.promptTokenCount ?? 0;
+    const completionTokens = usageMetadata?.candidatesTokenCount ?? 0;
+    if (usageMetadata && this.currentNote) {
+      this.currentNote.promptTokens += promptTokens;
+      this.currentNote.completionTokens += completionTokens;
+      this.updateNoteCost();
+    }
+    return { text, promptTokens, completionTokens };
+  }
+
+  // Translates a rendition, asking once more with stricter instructions if
+  // the headings, lists or checkboxes didn't survive. Usage of both attempts
+  // is counted.
+  private async translateRendition(
+    source: Rendition,
+    language: string,
+    onText?: (markdown: string) => void | Promise<void>,
+    signal?: AbortSignal,
+  ): Promise<Rendition | null> {
+    const activity = `Translating into ${languageName(language)}`;
+    this.recordingStatus.textContent = `${activity}...`;
+    let result = await this.streamGeneration(translationPrompt(source.markdown, languageName(language)), activity, onText, signal);
+    let promptTokens = result.promptTokens;
+    let completionTokens = result.completionTokens;
+    const partial = !!signal?.aborted;
+    if (result.text && !partial && !sameStructure(source.markdown, result.text)) {
+      console.warn(`Translation into ${language} changed the note's structure, asking again.`);
+      const retry = await this.streamGeneration(translationPrompt(source.markdown, languageName(language), true), activity, onText, signal);
+      promptTokens += retry.promptTokens;
+      completionTokens += retry.completionTokens;
+      // A retry that was cancelled or changed the structure again doesn't
+      // replace the complete first translation.
+      if (retry.text && !signal?.aborted && sameStructure(source.markdown, retry.text)) {
+        result = retry;
+      }
+    }
+    if (!result.text) return null;
+    return {
+      id: `rendition_${Date.now()}_${source.modeId}_${language}`,
+      modeId: source.modeId,
+      markdown: result.text,
+      createdAt: Date.now(),
+      promptTokens,
+      completionTokens,
+      cost: this.calculateCost(promptTokens, completionTokens),
+      language,
+      sourceRenditionId: source.id,
+      ...(partial ? { partial: true } : {}),
+    };
+  }
+
+  // Adds a translation, replacing an earlier one of the same rendition into
+  // the same language.
+  private addTranslation(translation: Rendition): void {
+    if (!this.currentNote) return;
+    this.currentNote.renditions = this.currentNote.renditions.filter(r =>
+      r.sourceRenditionId !== translation.sourceRenditionId || r.language !== translation.language);
+    this.currentNote.renditions.push(translation);
+  }
+
+  // Runs after polishing, into each language chosen for automatic
+  // translation. The original stays on screen.
+  private async translateAutomatically(source: Rendition, signal: AbortSignal): Promise<void> {
+    let failed = 0;
+    for (const language of this.translationLanguages) {
+      if (signal.aborted) break;
+      try {
+        const translation = await this.translateRendition(source, language, undefined, signal);
+        if (translation) this.addTranslation(translation);
+      } catch (error) {
+        console.error(`Error translating into ${language}:`, error);
+        failed++;
+      }
+    }
+    this.recordingStatus.textContent = signal.aborted
+      ? 'Translation cancelled.'
+      : failed > 0
+        ? `Note polished. ${failed} translation(s) failed; use Translate to try again.`
+        : 'Note polished and translated. Ready for next recording.';
+  }
+
+  // Translates the rendition on screen (or the original of a translation on
+  // screen) and shows the result.
+  private async translateActiveRendition(language: string): Promise<void> {
+    const note = this.currentNote;
+    const active = note?.renditions.find(r => r.id === note.activeRenditionId);
+    if (!note || !active || this.isRecording || this.isProcessing) return;
+    const source = this.renditionSource(active);
+
+    this.isProcessing = true;
+    this.fabRecord.disabled = true;
+    this.repolishButton.disabled = true;
+    this.translateButton.disabled = true;
+    this.polishAbortController = new AbortController();
+    this.cancelPolishButton.style.display = 'flex';
+    try {
+      const translation = await this.translateRendition(
+        source,
+        language,
+        async (markdown) => {
+          this.polishedNote.innerHTML = await marked.parse(markdown);
+          this.polishedNote.classList.remove('placeholder-active');
+        },
+        this.polishAbortController.signal,
+      );
+      if (translation && this.currentNote === note) {
+        this.addTranslation(translation);
+        await this.showRendition(translation);
+        this.recordingStatus.textContent = translation.partial
+          ? 'Translation cancelled. The partial translation was kept.'
+          : `Translated into ${languageName(language)}.`;
+      } else {
+        this.recordingStatus.textContent = this.polishAbortController.signal.aborted
+          ? 'Translation cancelled.'
+          : 'Translation returned empty.';
+        await this.restoreActiveRendition();
+      }
+    } catch (error) {
+      console.error(`Error translating into ${language}:`, error);
+      this.recordingStatus.textContent = `Error translating note: ${error instanceof Error ? error.message : String(error)}`;
+      await this.restoreActiveRendition();
+    } finally {
+      this.polishAbortController = null;
+      this.cancelPolishButton.style.display = 'none';
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+      this.repolishButton.disabled = false;
+      this.translateButton.disabled = false;
+      this.updateMetadataDisplay();
+      this.renderRenditionBar();
+      await this.persistCurrentNote();
+    }
+  }
+
+  private renditionSource(rendition: Rendition): Rendition {
+    if (!rendition.sourceRenditionId) return rendition;
+    return this.currentNote?.renditions.find(r => r.id === rendition.sourceRenditionId) ?? rendition;
+  }
+
+  private buildPolishPrompt(mode: Mode): string {
+    const selectedTimezone = this.noteTimeZone();
+    const location = this.currentNote?.location?.name;
+    const noteTimestamp = this.currentNote ? this.currentNote.timestamp : Date.now();
+    const timestamp = new Date(noteTimestamp).toLocaleString('en-US', {
+        timeZone: selectedTimezone, dateStyle: 'full', timeStyle: 'short',
+    });
+    return `You are a specialized AI assistant that transforms raw audio transcription into a specific, structured format based on the user's selected 'mode'.
+
+Your task is to follow the instructions for the selected mode precisely and generate a markdown response.
+The note MUST begin with the provided ${location ? 'location and timestamp' : 'timestamp'}.
+Do not add any commentary before or after the markdown content.
+${location ? `\nLocation: ${location}` : ''}
+Timestamp: ${timestamp}
+Mode: ${mode.name}
+Instructions:
+${resolveTemplate(mode.instructions, this.templateValues())}
+
+---
+
+Raw transcription (from multiple laps):
+${this.polishableTranscript()}`;
+  }
+
+  // The transcript without the laps that failed to transcribe, whose
+  // placeholders the model would otherwise work into the note.
+  private polishableTranscript(): string {
+    return parseSessionTranscript(this.allRawLapText)
+      .filter(lap => !lap.segments.some(segment => segment.raw.includes(FAILED_LAP_TEXT)))
+      .map(lap => [lap.header, ...lap.segments.map(segment => segment.raw)].filter(line => line !== null).join('\n'))
+      .join('\n')
+      .trim();
+  }
+
+  private async addRendition(rendition: Rendition): Promise<void> {
+    if (!this.currentNote) return;
+    this.currentNote.renditions.push(rendition);
+    await this.showRendition(rendition);
+  }
+
+  // Makes the rendition the active one and shows it in the polished pane.
+  private async showRendition(rendition: Rendition): Promise<void> {
+    if (this.currentNote) {
+        this.currentNote.activeRenditionId = rendition.id;
+        this.currentNote.polishedNote = rendition.markdown;
+        this.currentNote.modeId = rendition.modeId;
     }
+    this.polishedNote.innerHTML = await marked.parse(rendition.markdown);
+    this.polishedNote.classList.remove('placeholder-active');
   }
 
-  private triggerFileUpload(): void {
-    if (this.isRecording || this.isProcessing) return;
-    this.audioUploadInput.click();
+  // Puts the active rendition back after a streamed re-polish failed or was cancelled.
+  private async restoreActiveRendition(): Promise<void> {
+    const active = this.currentNote?.renditions.find(r => r.id === this.currentNote?.activeRenditionId);
+    if (active) await this.showRendition(active);
   }
 
-  private async handleFileUpload(event: Event): Promise<void> {
-    const input = event.target as HTMLInputElement;
-    if (!input.files || input.files.length === 0) {
-        return;
+  private renditionLabel(rendition: Rendition): string {
+    const renditions = (this.currentNote?.renditions ?? []).filter(r => !r.sourceRenditionId);
+    const sameMode = renditions.filter(r => r.modeId === rendition.modeId);
+    const name = MODES[rendition.modeId]?.name ?? rendition.modeId;
+    const label = sameMode.length > 1 ? `${name} (${sameMode.indexOf(rendition) + 1})` : name;
+    return rendition.partial ? `${label} (partial)` : label;
+  }
+
+  private renderRenditionBar(): void {
+    const note = this.currentNote;
+    const canPolish = !!note && !!this.allRawLapText.trim() && !this.isRecording;
+    this.renditionBar.style.display = canPolish ? 'flex' : 'none';
+    this.renditionTabs.innerHTML = '';
+    this.renderTranslationBar();
+    if (!note || !canPolish) return;
+
+    // Translations are reached through the language switcher, not as tabs.
+    const active = note.renditions.find(r => r.id === note.activeRenditionId);
+    const activeSource = active ? this.renditionSource(active) : null;
+    this.translateButton.disabled = !active || this.isProcessing;
+    note.renditions.filter(r => !r.sourceRenditionId).forEach(rendition => {
+        const tab = document.createElement('button');
+        tab.className = 'rendition-tab';
+        tab.textContent = this.renditionLabel(rendition);
+        tab.title = `${this.renditionLabel(rendition)} · ${rendition.promptTokens} / ${rendition.completionTokens} tokens · $${rendition.cost.toFixed(5)}`;
+        if (rendition === activeSource) tab.classList.add('active');
+        tab.addEventListener('click', async () => {
+            await this.showRendition(rendition);
+            this.renderRenditionBar();
+            this.updateMetadataDisplay();
+            await this.persistCurrentNote();
+        });
+        this.renditionTabs.appendChild(tab);
+    });
+  }
+
+  // Switches between the original of the rendition on screen and its translations.
+  private renderTranslationBar(): void {
+    const note = this.currentNote;
+    const active = note?.renditions.find(r => r.id === note.activeRenditionId);
+    this.translationBar.innerHTML = '';
+    const source = active ? this.renditionSource(active) : null;
+    const translations = source ? note!.renditions.filter(r => r.sourceRenditionId === source.id) : [];
+    this.translationBar.style.display = translations.length > 0 && !this.isRecording ? 'flex' : 'none';
+    if (!source || translations.length === 0) return;
+
+    const label = document.createElement('span');
+    label.className = 'translation-bar-label';
+    label.textContent = 'Language:';
+    this.translationBar.appendChild(label);
+    for (const rendition of [source, ...translations]) {
+        const tab = document.createElement('button');
+        tab.className = 'rendition-tab';
+        const name = rendition.language ? languageName(rendition.language) : 'Original';
+        tab.textContent = rendition.partial ? `${name} (partial)` : name;
+        tab.title = `${name} · ${rendition.promptTokens} / ${rendition.completionTokens} tokens · $${rendition.cost.toFixed(5)}`;
+        if (rendition === active) tab.classList.add('active');
+        tab.addEventListener('click', async () => {
+            await this.showRendition(rendition);
+            this.renderRenditionBar();
+            this.updateMetadataDisplay();
+            await this.persistCurrentNote();
+        });
+        this.translationBar.appendChild(tab);
     }
-    const file = input.files[0];
+  }
 
-    // Validation
-    if (!file.type.startsWith('audio/')) {
-        this.recordingStatus.textContent = 'Error: Invalid file type. Please upload an audio file.';
-        input.value = ''; // Reset for next selection
-        setTimeout(() => {
-            if (this.recordingStatus.textContent?.includes('Invalid file type')) {
-                this.recordingStatus.textContent = 'Ready to record';
-            }
-        }, 3000);
-        return;
+  private loadTranslationLanguages(): void {
+    try {
+      const saved = JSON.parse(localStorage.getItem('translationLanguages') || '[]');
+      if (Array.isArray(saved)) this.translationLanguages = saved.filter(code => LANGUAGES.some(l => l.code === code));
+    } catch (error) {
+      console.warn('Ignoring invalid translation languages:', error);
     }
-    
-    if (this.isRecording || this.isProcessing) {
-        this.recordingStatus.textContent = 'Please wait for the current process to finish.';
-        input.value = '';
+  }
+
+  private toggleTranslateList(): void {
+    if (this.translateLanguageList.classList.contains('show')) {
+        this.closeTranslateList();
         return;
     }
-    
-    this.createNewNote();
-    
-    this.isProcessing = true;
-    this.fabRecord.disabled = true;
+    this.closeRepolishList();
+    this.renderTranslateLanguageList();
+    this.translateLanguageList.classList.add('show');
+    this.translateButton.classList.add('open');
+  }
 
-    try {
-        if (this.currentNote) {
-            this.currentNote.audioSize = file.size;
-            this.currentNote.duration = 0; // Duration is not available for uploads
-            this.totalDurationMs = 0;
-        }
-        this.updateMetadataDisplay();
+  private closeTranslateList(): void {
+    this.translateLanguageList.classList.remove('show');
+    this.translateButton.classList.remove('open');
+  }
 
-        this.recordingStatus.textContent = `Processing ${file.name}...`;
+  // Each language translates the note now; its bolt toggles translating
+  // into it automatically after every polish.
+  private renderTranslateLanguageList(): void {
+    this.translateLanguageList.innerHTML = '';
+    const hint = document.createElement('div');
+    hint.className = 'translate-auto-hint';
+    hint.innerHTML = 'Click a language to translate. <i class="fas fa-bolt"></i> also translates new notes automatically.';
+    this.translateLanguageList.appendChild(hint);
 
-        const base64Audio = await this.blobToBase64(file);
-        if (!base64Audio) throw new Error('Failed to read the audio file.');
+    for (const language of LANGUAGES) {
+        const row = document.createElement('div');
+        row.className = 'mode-option-row';
 
-        const transcriptionText = await this.getTranscription(base64Audio, file.type, true);
-        
-        this.allRawLapText = transcriptionText || '[No speech detected]';
-        this.rawTranscription.textContent = this.allRawLapText;
-        if (this.rawTranscription.classList.contains('placeholder-active')) {
-            this.rawTranscription.classList.remove('placeholder-active');
-        }
-        if(this.currentNote) this.currentNote.rawTranscription = this.allRawLapText;
-        
-        await this.getPolishedNote();
-    } catch (error) {
-        console.error('Error processing uploaded file:', error);
-        const errorMessage = error instanceof Error ? error.message : "Upload failed";
-        this.recordingStatus.textContent = `Error: ${errorMessage}`;
-    } finally {
-        this.isProcessing = false;
-        this.fabRecord.disabled = false;
-        input.value = ''; // Reset for next selection
-        this.updateMetadataDisplay();
+        const optionButton = document.createElement('button');
+        optionButton.className = 'mode-option';
+        optionButton.textContent = language.name;
+        optionButton.addEventListener('click', () => {
+            this.closeTranslateList();
+            this.translateActiveRendition(language.code);
+        });
+
+        const automatic = this.translationLanguages.includes(language.code);
+        const autoButton = document.createElement('button');
+        autoButton.className = 'mode-option-action';
+        autoButton.classList.toggle('auto-translate', automatic);
+        autoButton.title = automatic
+          ? `Stop translating new notes into ${language.name}`
+          : `Translate new notes into ${language.name} automatically`;
+        autoButton.innerHTML = '<i class="fas fa-bolt"></i>';
+        autoButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.translationLanguages = automatic
+              ? this.translationLanguages.filter(code => code !== language.code)
+              : [...this.translationLanguages, language.code];
+            localStorage.setItem('translationLanguages', JSON.stringify(this.translationLanguages));
+            this.renderTranslateLanguageList();
+        });
+
+        row.appendChild(optionButton);
+        row.appendChild(autoButton);
+        this.translateLanguageList.appendChild(row);
     }
   }
 
-  private async blobToBase64(blob: Blob): Promise<string> {
-      const reader = new FileReader();
-      const readResult = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          try {
-            resolve((reader.result as string).split(',')[1]);
-          } catch (err) {
-            reject(err);
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-      });
-      reader.readAsDataURL(blob);
-      return readResult;
+  private toggleRepolishList(): void {
+    if (this.repolishModeList.classList.contains('show')) {
+        this.closeRepolishList();
+        return;
+    }
+    this.closeTranslateList();
+    this.repolishModeList.innerHTML = '';
+    for (const key in MODES) {
+        const mode = MODES[key];
+        const optionButton = document.createElement('button');
+        optionButton.className = 'mode-option';
+        optionButton.textContent = mode.name;
+        optionButton.addEventListener('click', () => {
+            this.closeRepolishList();
+            this.repolishNote(mode.id);
+        });
+        optionButton.addEventListener('mouseenter', (e) => this.showModeTooltip(e, mode));
+        optionButton.addEventListener('mouseleave', () => this.hideTooltip());
+        this.repolishModeList.appendChild(optionButton);
+    }
+    this.repolishModeList.classList.add('show');
+    this.repolishButton.classList.add('open');
   }
 
-  private async getTranscription(base64Audio: string, mimeType: string, isUpload: boolean = false): Promise<string> {
-    const context = isUpload ? 'file' : `Lap ${this.lapCount}`;
+  private closeRepolishList(): void {
+    this.repolishModeList.classList.remove('show');
+    this.repolishButton.classList.remove('open');
+    this.hideTooltip();
+  }
+
+  // Runs the current transcript through another mode without re-recording.
+  private async repolishNote(modeId: ModeID): Promise<void> {
+    if (this.isRecording || this.isProcessing || !this.allRawLapText.trim()) return;
+    this.isProcessing = true;
+    this.fabRecord.disabled = true;
+    this.repolishButton.disabled = true;
     try {
-      this.recordingStatus.textContent = `Transcribing ${context}...`;
-      const contents = {
-          parts: [
-            {text: 'Transcribe this audio with the following format:\n\n[TIMESTAMP] SPEAKER: exact spoken words\n\nInclude timestamps every 10-15 seconds, detect different speakers (Speaker 1, Speaker 2, etc.), mark pauses with [PAUSE], unclear words with [UNCLEAR], and background sounds with [BACKGROUND: description]. Capture everything exactly as spoken including filler words, repetitions, and false starts.'},
-            {inlineData: {mimeType: mimeType, data: base64Audio}},
-          ],
-      };
-      const response = await this.genAI.models.generateContent({ model: MODEL_NAME, contents: contents });
-      
-      if (response.usageMetadata && this.currentNote) {
-        this.currentNote.promptTokens += response.usageMetadata.promptTokenCount ?? 0;
-        this.currentNote.completionTokens += response.usageMetadata.candidatesTokenCount ?? 0;
-        this.updateNoteCost();
-        this.updateMetadataDisplay();
-      }
-      return response.text;
-    } catch (error) {
-      console.error(`Error getting transcription for ${context}:`, error);
-      this.recordingStatus.textContent = `Error transcribing ${context}.`;
-      return `[Error during transcription: ${error instanceof Error ? error.message : String(error)}]`;
+      await this.getPolishedNote(modeId);
+    } finally {
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+      this.repolishButton.disabled = false;
     }
   }
 
-  private async getPolishedNote(): Promise<void> {
+  private async persistCurrentNote(): Promise<void> {
+    // Notes without any transcription are just empty drafts; don't store them.
+    if (!this.currentNote || !this.currentNote.rawTranscription.trim()) return;
     try {
-      if (!this.allRawLapText.trim()) {
-        this.recordingStatus.textContent = 'No transcription to polish';
-        this.polishedNote.innerHTML = '<p><em>No transcription available to polish.</em></p>';
-        this.polishedNote.classList.add('placeholder-active');
-        return;
-      }
-      this.recordingStatus.textContent = 'Polishing note...';
-      const mode = MODES[this.currentModeId] || MODES.journal;
-      const selectedTimezone = this.currentTimezone;
-      const location = selectedTimezone.split('/').pop()?.replace(/_/g, ' ') || 'Unknown Location';
-      const noteTimestamp = this.currentNote ? this.currentNote.timestamp : Date.now();
-      const timestamp = new Date(noteTimestamp).toLocaleString('en-US', {
-          timeZone: selectedTimezone, dateStyle: 'full', timeStyle: 'short',
-      });
-      const prompt = `You are a specialized AI assistant that transforms raw audio transcription into a specific, structured format based on the user's selected 'mode'.
-
-Your task is to follow the instructions for the selected mode precisely and generate a markdown response.
-The note MUST begin with the provided location and timestamp.
-Do not add any commentary before or after the markdown content.
-
-Location: ${location}
-Timestamp: ${timestamp}
-Mode: ${mode.name}
-Instructions:
-${mode.instructions}
-
----
-
-Raw transcription (from multiple laps):
-${this.allRawLapText}`;
-      
-      const response = await this.genAI.models.generateContent({ model: MODEL_NAME, contents: prompt });
-
-      if (response.usageMetadata && this.currentNote) {
-        this.currentNote.promptTokens += response.usageMetadata.promptTokenCount ?? 0;
-        this.currentNote.completionTokens += response.usageMetadata.candidatesTokenCount ?? 0;
-        this.updateNoteCost();
-      }
-      const polishedText = response.text;
-      if (polishedText) {
-        const htmlContent = await marked.parse(String(polishedText));
-        this.polishedNote.innerHTML = htmlContent;
-        this.polishedNote.classList.remove('placeholder-active');
-        if (this.currentNote) this.currentNote.polishedNote = polishedText;
-        this.recordingStatus.textContent = 'Note polished. Ready for next recording.';
-      } else {
-        this.recordingStatus.textContent = 'Polishing failed or returned empty.';
-        this.polishedNote.innerHTML = '<p><em>Polishing returned empty. Raw transcription is available.</em></p>';
-        this.polishedNote.classList.add('placeholder-active');
-      }
+      await this.noteStore.update(this.currentNote);
     } catch (error) {
-      console.error('Error polishing note:', error);
-      this.recordingStatus.textContent = 'Error polishing note. Please try again.';
-      this.polishedNote.innerHTML = `<p><em>Error during polishing: ${error instanceof Error ? error.message : String(error)}</em></p>`;
-      this.polishedNote.classList.add('placeholder-active');
-    } finally {
-        this.updateMetadataDisplay();
+      console.error('Error saving note:', error);
+      return;
+    }
+    if (this.historyPanel.classList.contains('show')) {
+      await this.refreshHistory();
     }
   }
 
@@ -1259,7 +3793,7 @@ ${this.allRawLapText}`;
   }
 
   private async copyRawTranscription(): Promise<void> {
-    const rawText = this.rawTranscription.textContent?.trim() || '';
+    const rawText = this.allRawLapText.trim();
     if (this.rawTranscription.classList.contains('placeholder-active') || rawText === '') {
         console.warn('No raw transcription content to copy.');
         return;
@@ -1274,18 +3808,442 @@ ${this.allRawLapText}`;
     }
   }
 
+  private downloadSubtitles(format: 'srt' | 'vtt'): void {
+    const button = format === 'srt' ? this.downloadSrtButton : this.downloadVttButton;
+    if (!this.allRawLapText.trim()) {
+        console.warn('No raw transcription to export as subtitles.');
+        return;
+    }
+
+    const cues = buildCues(parseSessionTranscript(this.allRawLapText, this.currentNote?.laps));
+    if (cues.length === 0) {
+        console.warn('Transcript has no timestamped lines to export as subtitles.');
+        this.setButtonState(button, 'error');
+        return;
+    }
+
+    if (format === 'srt') {
+        this.downloadFile(`${this.exportBaseName()}.srt`, toSrt(cues), 'application/x-subrip');
+    } else {
+        this.downloadFile(`${this.exportBaseName()}.vtt`, toWebVtt(cues), 'text/vtt');
+    }
+    this.setButtonState(button, 'success');
+  }
+
+  // Default file name for exports of the current note, e.g. "voice-note-2025-07-21-0930".
+  private exportBaseName(): string {
+    const timestamp = this.currentNote ? this.currentNote.timestamp : Date.now();
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+        hourCycle: 'h23', timeZone: this.noteTimeZone(),
+    }).formatToParts(new Date(timestamp));
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    return `voice-note-${part('year')}-${part('month')}-${part('day')}-${part('hour')}${part('minute')}`;
+  }
+
+  private downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private loadMarkdownExportSettings(): void {
+    try {
+      const saved = JSON.parse(localStorage.getItem('markdownExportSettings') || 'null');
+      if (saved) this.markdownExportSettings = { ...this.markdownExportSettings, ...saved };
+    } catch (error) {
+      console.warn('Ignoring invalid markdown export settings:', error);
+    }
+  }
+
+  private loadAutoLapSettings(): void {
+    try {
+      const saved = JSON.parse(localStorage.getItem('autoLapSettings') || 'null');
+      if (saved) this.autoLapSettings = { ...this.autoLapSettings, ...saved };
+    } catch (error) {
+      console.warn('Ignoring invalid automatic lap settings:', error);
+    }
+  }
+
+  private loadCaptureSettings(): void {
+    try {
+      const saved = JSON.parse(localStorage.getItem('captureSettings') || 'null');
+      if (saved) this.captureSettings = { ...this.captureSettings, ...saved };
+    } catch (error) {
+      console.warn('Ignoring invalid capture settings:', error);
+    }
+  }
+
+  private loadSpokenLanguages(): void {
+    try {
+      const saved = JSON.parse(localStorage.getItem('spokenLanguages') || '[]');
+      if (Array.isArray(saved)) this.spokenLanguages = saved.filter(code => LANGUAGES.some(l => l.code === code));
+    } catch (error) {
+      console.warn('Ignoring invalid spoken languages:', error);
+    }
+  }
+
+  private renderSpokenLanguageOptions(): void {
+    this.spokenLanguageOptions.innerHTML = '';
+    for (const language of LANGUAGES) {
+      const label = document.createElement('label');
+      label.className = 'modal-checkbox';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = language.code;
+      checkbox.checked = this.spokenLanguages.includes(language.code);
+      label.append(checkbox, ` ${language.name}`);
+      this.spokenLanguageOptions.appendChild(label);
+    }
+  }
+
+  private async populateMicDevices(): Promise<void> {
+    const selected = this.micDeviceSelect.value || this.captureSettings.deviceId || '';
+    this.micDeviceSelect.innerHTML = '';
+    this.micDeviceSelect.appendChild(new Option('System default', ''));
+    // Saving while the list loads keeps the saved microphone.
+    this.micDeviceSelect.disabled = true;
+    try {
+      const inputs = await listAudioInputs();
+      inputs.forEach(input => this.micDeviceSelect.appendChild(new Option(input.label, input.deviceId)));
+      // Keep a remembered device selectable while it is unplugged.
+      if (selected && !inputs.some(input => input.deviceId === selected)) {
+        this.micDeviceSelect.appendChild(new Option('Saved microphone (not connected)', selected));
+      }
+    } catch (error) {
+      console.warn('Could not list microphones:', error);
+    }
+    this.micDeviceSelect.value = selected;
+    this.micDeviceSelect.disabled = false;
+  }
+
+  private openRecordingSettingsModal(): void {
+    const capture = this.captureSettings;
+    this.micDeviceSelect.value = '';
+    this.populateMicDevices();
+    this.echoCancellationCheckbox.checked = capture.echoCancellation;
+    this.noiseSuppressionCheckbox.checked = capture.noiseSuppression;
+    this.autoGainCheckbox.checked = capture.autoGainControl;
+    this.captureFormatHint.textContent = this.recordingMimeType
+      ? `Recordings are saved as ${this.recordingMimeType}. Microphone changes apply from the next recording.`
+      : 'Recordings use the browser\'s default format. Microphone changes apply from the next recording.';
+
+    this.renderSpokenLanguageOptions();
+
+    const settings = this.autoLapSettings;
+    this.autoLapEnabledCheckbox.checked = settings.enabled;
+    this.autoLapMinInput.value = String(settings.minLapSeconds / 60);
+    this.autoLapMaxInput.value = String(settings.maxLapSeconds / 60);
+    this.autoLapPauseInput.value = String(settings.splitSilenceSeconds);
+    this.autoStopSilenceInput.value = String(settings.autoStopSilenceSeconds / 60);
+    this.silenceThresholdInput.value = String(settings.silenceThreshold);
+    this.updateSilenceThresholdLabel();
+    this.recordingSettingsModal.style.display = 'flex';
+  }
+
+  private closeRecordingSettingsModal(): void {
+    this.recordingSettingsModal.style.display = 'none';
+  }
+
+  private updateSilenceThresholdLabel(): void {
+    this.silenceThresholdValue.textContent = `${(Number(this.silenceThresholdInput.value) * 100).toFixed(1)}%`;
+  }
+
+  private saveRecordingSettings(): void {
+    const number = (input: HTMLInputElement, fallback: number) => {
+      const value = Number(input.value);
+      return input.value.trim() && isFinite(value) && value >= 0 ? value : fallback;
+    };
+    const defaults = DEFAULT_AUTO_LAP_SETTINGS;
+    const minLapSeconds = Math.max(30, number(this.autoLapMinInput, defaults.minLapSeconds / 60) * 60);
+    this.autoLapSettings = {
+      enabled: this.autoLapEnabledCheckbox.checked,
+      minLapSeconds,
+      maxLapSeconds: Math.max(minLapSeconds, number(this.autoLapMaxInput, defaults.maxLapSeconds / 60) * 60),
+      splitSilenceSeconds: Math.max(0.5, number(this.autoLapPauseInput, defaults.splitSilenceSeconds)),
+      autoStopSilenceSeconds: number(this.autoStopSilenceInput, defaults.autoStopSilenceSeconds / 60) * 60,
+      silenceThreshold: number(this.silenceThresholdInput, defaults.silenceThreshold),
+    };
+    localStorage.setItem('autoLapSettings', JSON.stringify(this.autoLapSettings));
+    this.captureSettings = {
+      deviceId: this.micDeviceSelect.disabled ? this.captureSettings.deviceId : this.micDeviceSelect.value || null,
+      echoCancellation: this.echoCancellationCheckbox.checked,
+      noiseSuppression: this.noiseSuppressionCheckbox.checked,
+      autoGainControl: this.autoGainCheckbox.checked,
+    };
+    localStorage.setItem('captureSettings', JSON.stringify(this.captureSettings));
+    this.spokenLanguages = [...this.spokenLanguageOptions.querySelectorAll<HTMLInputElement>('input:checked')]
+      .map(checkbox => checkbox.value);
+    localStorage.setItem('spokenLanguages', JSON.stringify(this.spokenLanguages));
+    // Apply to a session that is already running.
+    if (this.isRecording) this.startVoiceActivityDetection();
+    this.closeRecordingSettingsModal();
+  }
+
+  private loadLocationSettings(): void {
+    try {
+      const saved = JSON.parse(localStorage.getItem('locationSettings') || 'null');
+      if (saved) this.locationSettings = { ...this.locationSettings, ...saved };
+      const places = JSON.parse(localStorage.getItem('savedPlaces') || '[]');
+      if (Array.isArray(places)) this.savedPlaces = places.filter(place => typeof place?.name === 'string');
+    } catch (error) {
+      console.warn('Ignoring invalid location settings:', error);
+    }
+  }
+
+  // The location a new note starts with. Positions are looked up separately,
+  // once recording starts, since that needs the browser's permission.
+  private newNoteLocation(): NoteLocation | null {
+    const { mode, defaultPlace } = this.locationSettings;
+    if (mode !== 'manual' || !defaultPlace) return null;
+    const place = this.savedPlaces.find(p => p.name === defaultPlace);
+    return place ? placeToLocation(place) : null;
+  }
+
+  private locateNoteInBackground(note: Note): void {
+    locateNote(this.savedPlaces, this.locationSettings.nearbyRadiusKm)
+      .then(location => this.saveNoteLocation(note.id, location))
+      .catch(error => console.warn('Could not get the location for the note:', error));
+  }
+
+  // Gives a note its located position unless one was set by hand in the
+  // meantime. A note no longer on screen is read back from storage first.
+  private saveNoteLocation(noteId: string, location: NoteLocation): Promise<void> {
+    if (this.currentNote?.id === noteId) {
+      if (this.currentNote.location) return Promise.resolve();
+      this.currentNote.location = location;
+      this.updateMetadataDisplay();
+      return this.persistCurrentNote();
+    }
+    return this.storedNoteWrites.add(async () => {
+      if (this.currentNote?.id === noteId) return this.saveNoteLocation(noteId, location);
+      const note = await this.noteStore.get(noteId);
+      if (!note || note.location) return;
+      note.location = location;
+      await this.noteStore.update(note);
+      if (this.historyPanel.classList.contains('show')) await this.refreshHistory();
+    });
+  }
+
+  private openLocationModal(): void {
+    this.closeMoreMenu();
+    const location = this.currentNote?.location ?? null;
+    this.locationNameInput.value = location?.name ?? '';
+    this.locatedCoordinates = location?.source === 'geolocation' && location.latitude !== null && location.longitude !== null
+      ? { latitude: location.latitude, longitude: location.longitude }
+      : null;
+    this.locationStatus.textContent = this.locatedCoordinates
+      ? `Position: ${formatCoordinates(this.locatedCoordinates.latitude, this.locatedCoordinates.longitude)}`
+      : '';
+    this.locationModeSelect.value = this.locationSettings.mode;
+    this.renderSavedPlaces();
+    this.defaultPlaceSelect.value = this.locationSettings.defaultPlace ?? '';
+    this.updateDefaultPlaceField();
+    this.locationModal.style.display = 'flex';
+    this.locationNameInput.focus();
+  }
+
+  private closeLocationModal(): void {
+    this.locationModal.style.display = 'none';
+  }
+
+  private updateDefaultPlaceField(): void {
+    this.defaultPlaceField.style.display = this.locationModeSelect.value === 'manual' ? '' : 'none';
+  }
+
+  private renderSavedPlaces(): void {
+    const selectedDefault = this.defaultPlaceSelect.value;
+    this.savedPlacesOptions.innerHTML = '';
+    this.savedPlacesList.innerHTML = '';
+    this.defaultPlaceSelect.innerHTML = '';
+    this.defaultPlaceSelect.appendChild(new Option('Choose a place...', ''));
+
+    if (this.savedPlaces.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'saved-places-empty';
+      empty.textContent = 'No saved places yet. Enter a name above and save it.';
+      this.savedPlacesList.appendChild(empty);
+    }
+    for (const place of this.savedPlaces) {
+      this.savedPlacesOptions.appendChild(new Option(place.name));
+      this.defaultPlaceSelect.appendChild(new Option(place.name, place.name));
+
+      const item = document.createElement('li');
+      const name = document.createElement('span');
+      name.textContent = place.name;
+      const coordinates = document.createElement('span');
+      coordinates.className = 'place-coordinates';
+      coordinates.textContent = place.latitude !== null && place.longitude !== null
+        ? formatCoordinates(place.latitude, place.longitude) : 'No position';
+      const removeButton = document.createElement('button');
+      removeButton.title = `Remove ${place.name}`;
+      removeButton.innerHTML = '<i class="fas fa-xmark"></i>';
+      removeButton.addEventListener('click', () => {
+        this.savedPlaces = this.savedPlaces.filter(p => p !== place);
+        localStorage.setItem('savedPlaces', JSON.stringify(this.savedPlaces));
+        this.renderSavedPlaces();
+      });
+      item.append(name, coordinates, removeButton);
+      this.savedPlacesList.appendChild(item);
+    }
+    this.defaultPlaceSelect.value = selectedDefault;
+  }
+
+  private async locateForModal(): Promise<void> {
+    this.locateButton.disabled = true;
+    this.locationStatus.textContent = 'Getting current position...';
+    try {
+      const location = await locateNote(this.savedPlaces, this.locationSettings.nearbyRadiusKm);
+      this.locatedCoordinates = { latitude: location.latitude!, longitude: location.longitude! };
+      this.locationNameInput.value = location.name;
+      this.locationStatus.textContent = `Position: ${formatCoordinates(location.latitude!, location.longitude!)}`;
+    } catch (error) {
+      console.warn('Could not get the current position:', error);
+      this.locationStatus.textContent = `Could not get the current position: ${error instanceof Error ? error.message : String(error)}`;
+    } finally {
+      this.locateButton.disabled = false;
+    }
+  }
+
+  // Saves the entered name as a place, with the looked-up position if there
+  // is one, so later positions nearby are named after it.
+  private saveCurrentPlace(): void {
+    const name = this.locationNameInput.value.trim();
+    if (!name) {
+      this.locationStatus.textContent = 'Enter a name for the place first.';
+      return;
+    }
+    const existing = this.savedPlaces.find(p => p.name.toLowerCase() === name.toLowerCase());
+    this.savedPlaces = upsertPlace(this.savedPlaces, {
+      name,
+      latitude: this.locatedCoordinates?.latitude ?? existing?.latitude ?? null,
+      longitude: this.locatedCoordinates?.longitude ?? existing?.longitude ?? null,
+    });
+    localStorage.setItem('savedPlaces', JSON.stringify(this.savedPlaces));
+    this.renderSavedPlaces();
+    this.locationStatus.textContent = `Saved "${name}".`;
+  }
+
+  private saveLocation(): void {
+    this.locationSettings = {
+      ...this.locationSettings,
+      mode: this.locationModeSelect.value as LocationMode,
+      defaultPlace: this.defaultPlaceSelect.value || null,
+    };
+    localStorage.setItem('locationSettings', JSON.stringify(this.locationSettings));
+
+    if (this.currentNote) {
+      const name = this.locationNameInput.value.trim();
+      const place = this.savedPlaces.find(p => p.name.toLowerCase() === name.toLowerCase());
+      if (!name) {
+        this.currentNote.location = null;
+      } else if (place) {
+        this.currentNote.location = placeToLocation(place);
+      } else if (this.locatedCoordinates) {
+        this.currentNote.location = { name, ...this.locatedCoordinates, source: 'geolocation' };
+      } else {
+        this.currentNote.location = { name, latitude: null, longitude: null, source: 'manual' };
+      }
+      this.updateMetadataDisplay();
+      this.persistCurrentNote();
+    }
+    this.closeLocationModal();
+  }
+
+  // Notes are shown in the zone they were recorded in; older notes that
+  // didn't store one follow the selected zone.
+  private noteTimeZone(note: Note | null = this.currentNote): string {
+    return note?.timeZone ?? this.currentTimezone;
+  }
+
+  private markdownExportContext(note: Note): MarkdownExportContext {
+    return {
+      timeZone: this.noteTimeZone(note),
+      modeName: MODES[note.modeId]?.name ?? note.modeId,
+    };
+  }
+
+  private openMarkdownExportModal(): void {
+    if (!this.currentNote || !this.currentNote.rawTranscription.trim()) {
+        console.warn('No note content to export.');
+        return;
+    }
+    this.exportIncludeRawCheckbox.checked = this.markdownExportSettings.includeRawTranscription;
+    this.exportFilenamePatternInput.value = this.markdownExportSettings.filenamePattern;
+    this.updateExportFilenamePreview();
+    this.markdownExportModal.style.display = 'flex';
+  }
+
+  private closeMarkdownExportModal(): void {
+    this.markdownExportModal.style.display = 'none';
+  }
+
+  private updateExportFilenamePreview(): void {
+    if (!this.currentNote) return;
+    this.exportFilenamePreview.textContent = exportFileName(
+      this.exportFilenamePatternInput.value, this.currentNote, this.markdownExportContext(this.currentNote));
+  }
+
+  private downloadMarkdown(): void {
+    if (!this.currentNote) return;
+    this.markdownExportSettings = {
+      includeRawTranscription: this.exportIncludeRawCheckbox.checked,
+      filenamePattern: this.exportFilenamePatternInput.value.trim() || DEFAULT_FILENAME_PATTERN,
+    };
+    localStorage.setItem('markdownExportSettings', JSON.stringify(this.markdownExportSettings));
+
+    const context = this.markdownExportContext(this.currentNote);
+    this.downloadFile(
+      exportFileName(this.markdownExportSettings.filenamePattern, this.currentNote, context),
+      noteToMarkdown(this.currentNote, context, this.markdownExportSettings),
+      'text/markdown',
+    );
+    this.closeMarkdownExportModal();
+  }
+
+  // Exports the notes currently listed in the history panel as one .zip of markdown files.
+  private exportHistoryZip(): void {
+    const notes = filterNotes(this.historyNotes, this.readHistoryFilter(), note => this.noteTimeZone(note));
+    if (notes.length === 0) {
+        console.warn('No notes to export.');
+        return;
+    }
+
+    const usedNames = new Set<string>();
+    const entries = notes.map(note => {
+        const context = this.markdownExportContext(note);
+        const baseName = exportFileName(this.markdownExportSettings.filenamePattern, note, context).replace(/\.md$/, '');
+        let name = `${baseName}.md`;
+        for (let i = 2; usedNames.has(name); i++) {
+            name = `${baseName}-${i}.md`;
+        }
+        usedNames.add(name);
+        return { name, content: noteToMarkdown(note, context, this.markdownExportSettings), modified: new Date(note.timestamp) };
+    });
+
+    this.downloadFile(`voice-notes-${new Date().toISOString().slice(0, 10)}.zip`, createZip(entries), 'application/zip');
+  }
+
   private async copyMetadata(): Promise<void> {
-      if (!this.currentNote || this.currentNote.duration === 0 && this.totalDurationMs === 0) {
+      if (!this.currentNote || this.currentNote.audioSize === 0 && !this.currentNote.rawTranscription.trim()) {
           console.warn('No metadata to copy.');
           return;
       }
       const { timestamp, audioSize, modeId, promptTokens, completionTokens, cost } = this.currentNote;
       
       const metaString = [
-          `Date & Time: ${new Date(timestamp).toLocaleString(undefined, { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: this.currentTimezone})}`,
+          `Date & Time: ${new Date(timestamp).toLocaleString(undefined, { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short', timeZone: this.noteTimeZone()})}`,
           `Recording Duration: ${this.formatDuration(this.totalDurationMs || this.currentNote.duration)}`,
           `Audio File Size: ${this.formatBytes(audioSize)}`,
-          `Processing Mode: ${MODES[modeId].name}`,
+          `Audio Format: ${formatAudioFormat(this.currentNote) ?? 'Unknown'}`,
+          `Location: ${this.currentNote.location?.name ?? 'Not set'}`,
+          `Spoken Language: ${formatLanguages(noteLanguages(this.currentNote)) || 'Unknown'}`,
+          `Processing Mode: ${MODES[modeId]?.name ?? modeId}`,
           `Tokens (Prompt / Completion): ${promptTokens} / ${completionTokens}`,
           `Estimated Cost (USD): $${cost.toFixed(5)}`
       ].join('\n');
@@ -1316,18 +4274,25 @@ ${this.allRawLapText}`;
     return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
   }
 
-  private updateNoteCost(): void {
-    if (!this.currentNote) return;
-    const { promptTokens, completionTokens } = this.currentNote;
+  private calculateCost(promptTokens: number, completionTokens: number): number {
     const promptCost = (promptTokens / 1000) * COST_PER_1K_PROMPT_TOKENS;
     const completionCost = (completionTokens / 1000) * COST_PER_1K_COMPLETION_TOKENS;
-    this.currentNote.cost = promptCost + completionCost;
+    return promptCost + completionCost;
+  }
+
+  private updateNoteCost(note: Note | null = this.currentNote): void {
+    if (!note) return;
+    const { promptTokens, completionTokens } = note;
+    note.cost = this.calculateCost(promptTokens, completionTokens);
   }
   
   private resetMetadataDisplay(): void {
     this.metaDatetime.querySelector('span')!.textContent = '--';
     this.metaDuration.querySelector('span')!.textContent = '--';
     this.metaSize.querySelector('span')!.textContent = '--';
+    this.metaFormat.querySelector('span')!.textContent = '--';
+    this.metaLocation.querySelector('span')!.textContent = '--';
+    this.metaLanguage.querySelector('span')!.textContent = '--';
     this.metaMode.querySelector('span')!.textContent = '--';
     this.metaTokens.querySelector('span')!.textContent = '-- / --';
     this.metaCost.querySelector('span')!.textContent = '$0.00000';
@@ -1342,16 +4307,19 @@ ${this.allRawLapText}`;
     const dtSpan = this.metaDatetime.querySelector('span')!;
     dtSpan.textContent = new Date(timestamp).toLocaleString(undefined, {
         year: 'numeric', month: 'long', day: 'numeric',
-        hour: 'numeric', minute: '2-digit',
-        timeZone: this.currentTimezone,
+        hour: 'numeric', minute: '2-digit', timeZoneName: 'short',
+        timeZone: this.noteTimeZone(),
     });
     const durSpan = this.metaDuration.querySelector('span')!;
     const duration = this.isRecording ? this.totalDurationMs : (this.currentNote.duration || this.totalDurationMs);
     durSpan.textContent = isLive ? 'Recording...' : this.formatDuration(duration);
     const sizeSpan = this.metaSize.querySelector('span')!;
     sizeSpan.textContent = isLive ? '...' : this.formatBytes(audioSize);
+    this.metaFormat.querySelector('span')!.textContent = formatAudioFormat(this.currentNote) ?? '--';
+    this.metaLocation.querySelector('span')!.textContent = this.currentNote.location?.name ?? '--';
+    this.metaLanguage.querySelector('span')!.textContent = formatLanguages(noteLanguages(this.currentNote)) || '--';
     const modeSpan = this.metaMode.querySelector('span')!;
-    modeSpan.textContent = MODES[modeId].name;
+    modeSpan.textContent = MODES[modeId]?.name ?? modeId;
     const tokensSpan = this.metaTokens.querySelector('span')!;
     tokensSpan.textContent = (promptTokens > 0 || completionTokens > 0) ? `${promptTokens} / ${completionTokens}` : '-- / --';
     const costSpan = this.metaCost.querySelector('span')!;
@@ -1360,6 +4328,8 @@ ${this.allRawLapText}`;
   }
 
   private resetToIdleState(): void {
+    this.stopVoiceActivityDetection();
+    this.stopInputLevelMonitor();
     this.isRecording = false;
     this.isPaused = false;
     this.isProcessing = false;
@@ -1370,7 +4340,9 @@ ${this.allRawLapText}`;
         this.stream = null;
     }
     this.mediaRecorder = null;
+    this.recordingSegment = null;
     this.updateMetadataDisplay();
+    this.renderRenditionBar();
   }
 
   private setLiveControls(enabled: boolean): void {
@@ -1379,6 +4351,22 @@ ${this.allRawLapText}`;
     this.lapButton.disabled = !enabled;
   }
 
+  // Whether a recording, upload or lap transcription is still working on
+  // the current note.
+  private isSessionBusy(): boolean {
+    return this.isRecording || this.isProcessing || this.lapQueue.pending > 0;
+  }
+
+  // Starting a new note mid-session would leave the session's last laps and
+  // its polish without a note on screen, so it waits until that is done.
+  private requestNewNote(): void {
+    if (this.isSessionBusy()) {
+      this.recordingStatus.textContent = 'Stop the recording and let it finish processing before starting a new note.';
+      return;
+    }
+    this.createNewNote();
+  }
+
   private createNewNote(): void {
     if(this.isRecording) {
         this.stopFullRecordingSession();
@@ -1389,15 +4377,24 @@ ${this.allRawLapText}`;
       rawTranscription: '',
       polishedNote: '',
       timestamp: Date.now(),
+      timeZone: this.currentTimezone,
+      location: this.newNoteLocation(),
       duration: 0,
       audioSize: 0,
+      codec: null,
+      sampleRate: null,
+      channels: null,
       modeId: this.currentModeId,
       promptTokens: 0,
       completionTokens: 0,
       cost: 0,
+      laps: [],
+      renditions: [],
+      activeRenditionId: null,
     };
     
     this.allRawLapText = '';
+    this.clearLapAudio();
     this.totalDurationMs = 0;
 
     const rawPlaceholder = this.rawTranscription.getAttribute('placeholder') || '';
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {InputLevelMonitor, levelToMeter, timeDomainPeak} from './inputLevel';
+
+const options = {
+  silenceThreshold: 0.02,
+  silenceWarningSeconds: 1,
+  clipLevel: 0.99,
+  clipWindowSeconds: 1,
+  clipCountToWarn: 2,
+};
+
+// Feeds one reading every 100 ms from `fromMs` up to, not including, `toMs`.
+function feed(monitor: InputLevelMonitor, fromMs: number, toMs: number, rms: number, peak = rms) {
+  let issues: string[] = [];
+  for (let ms = fromMs; ms < toMs; ms += 100) issues = monitor.update(rms, peak, ms);
+  return issues;
+}
+
+describe('level helpers', () => {
+  it('reads the peak of analyser bytes', () => {
+    expect(timeDomainPeak(new Uint8Array([128, 192, 64]))).toBe(0.5);
+    expect(timeDomainPeak(new Uint8Array([128, 128]))).toBe(0);
+  });
+
+  it('maps levels onto a -60 to 0 dBFS meter', () => {
+    expect(levelToMeter(1)).toBe(1);
+    expect(levelToMeter(0.001)).toBeCloseTo(0);
+    expect(levelToMeter(0)).toBe(0);
+    expect(levelToMeter(0.1)).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('InputLevelMonitor', () => {
+  it('warns about silence only after it has lasted long enough', () => {
+    const monitor = new InputLevelMonitor(options);
+    expect(feed(monitor, 0, 900, 0)).toEqual([]);
+    expect(feed(monitor, 900, 1100, 0)).toEqual(['silence']);
+    expect(feed(monitor, 1100, 1200, 0.5)).toEqual([]);
+  });
+
+  it('warns about repeated clipping within the window', () => {
+    const monitor = new InputLevelMonitor(options);
+    expect(monitor.update(0.5, 1, 0)).toEqual([]);
+    expect(monitor.update(0.5, 1, 500)).toEqual(['clipping']);
+    expect(monitor.update(0.5, 0.5, 1600)).toEqual([]); // The clipped readings have left the window
+  });
+
+  it('logs finished issues with their times', () => {
+    const monitor = new InputLevelMonitor(options);
+    feed(monitor, 0, 2000, 0);
+    feed(monitor, 2000, 2500, 0.5);
+    expect(monitor.takeEvents(3000)).toEqual([{ type: 'silence', startMs: 0, endMs: 1900 }]);
+    expect(monitor.takeEvents(4000)).toEqual([]);
+  });
+
+  it('splits an ongoing issue between laps', () => {
+    const monitor = new InputLevelMonitor(options);
+    feed(monitor, 0, 2000, 0);
+    expect(monitor.takeEvents(2000)).toEqual([{ type: 'silence', startMs: 0, endMs: 2000 }]);
+    feed(monitor, 2000, 3000, 0);
+    feed(monitor, 3000, 3100, 0.5);
+    expect(monitor.takeEvents(4000)).toEqual([{ type: 'silence', startMs: 2000, endMs: 2900 }]);
+  });
+
+  it('leaves readings after the lap end to the next lap', () => {
+    const monitor = new InputLevelMonitor(options);
+    feed(monitor, 0, 2000, 0);
+    feed(monitor, 2000, 2100, 0.5);
+    feed(monitor, 2100, 3500, 0);
+    feed(monitor, 3500, 3600, 0.5);
+    // The lap ended at 1500, but its recorder only stopped now.
+    expect(monitor.takeEvents(1500)).toEqual([{ type: 'silence', startMs: 0, endMs: 1500 }]);
+    expect(monitor.takeEvents(4000)).toEqual([
+      { type: 'silence', startMs: 1500, endMs: 1900 },
+      { type: 'silence', startMs: 2100, endMs: 3400 },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {InputLevelEvent, InputLevelIssue} from './types';
+
+export interface InputLevelOptions {
+  silenceThreshold: number; // RMS level (0-1) below which input counts as silent
+  silenceWarningSeconds: number; // Warn once input has been silent this long
+  clipLevel: number; // Peak level (0-1) that counts as clipped
+  clipWindowSeconds: number; // Clipped readings are counted over this window
+  clipCountToWarn: number; // Clipped readings within the window that trigger a warning
+}
+
+export const DEFAULT_INPUT_LEVEL_OPTIONS: InputLevelOptions = {
+  silenceThreshold: 0.02,
+  silenceWarningSeconds: 5,
+  clipLevel: 0.99,
+  clipWindowSeconds: 2,
+  clipCountToWarn: 3,
+};
+
+/** Peak level (0-1) of the time-domain bytes an AnalyserNode returns. */
+export function timeDomainPeak(samples: Uint8Array): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i] - 128) / 128);
+  }
+  return peak;
+}
+
+/** Position (0-1) of a level on a meter spanning -60 dBFS to 0 dBFS. */
+export function levelToMeter(level: number): number {
+  if (level <= 0) return 0;
+  const db = 20 * Math.log10(level);
+  return Math.max(0, Math.min(1, (db + 60) / 60));
+}
+
+/**
+ * Watches input levels for stretches of silence or frequent clipping, and
+ * keeps a log of them. Times are recording time, as for voice activity.
+ */
+export class InputLevelMonitor {
+  private silenceStartedMs: number | null = null;
+  private clipTimesMs: number[] = [];
+  private open = new Map<InputLevelIssue, InputLevelEvent>();
+  private closed: InputLevelEvent[] = [];
+
+  constructor(private readonly options: InputLevelOptions = DEFAULT_INPUT_LEVEL_OPTIONS) {}
+
+  /** Records a reading and returns the issues currently worth warning about. */
+  update(rms: number, peak: number, sessionMs: number): InputLevelIssue[] {
+    const { options } = this;
+    if (rms < options.silenceThreshold) {
+      if (this.silenceStartedMs === null) this.silenceStartedMs = sessionMs;
+    } else {
+      this.silenceStartedMs = null;
+    }
+    const silent = this.silenceStartedMs !== null &&
+      sessionMs - this.silenceStartedMs >= options.silenceWarningSeconds * 1000;
+    this.track('silence', silent, this.silenceStartedMs ?? sessionMs, sessionMs);
+
+    const windowStartMs = sessionMs - options.clipWindowSeconds * 1000;
+    if (peak >= options.clipLevel) this.clipTimesMs.push(sessionMs);
+    this.clipTimesMs = this.clipTimesMs.filter(time => time > windowStartMs);
+    const clipping = this.clipTimesMs.length >= options.clipCountToWarn;
+    this.track('clipping', clipping, this.clipTimesMs[0] ?? sessionMs, sessionMs);
+
+    return [...this.open.keys()];
+  }
+
+  /**
+   * Returns the events up to the given time and forgets them, for attaching
+   * to the lap that just ended. Issues still going on, and anything logged
+   * after that time, carry over to the next lap.
+   */
+  takeEvents(untilMs: number): InputLevelEvent[] {
+    const events: InputLevelEvent[] = [];
+    const later: InputLevelEvent[] = [];
+    for (const event of this.closed) {
+      if (event.startMs < untilMs) events.push({ ...event, endMs: Math.min(event.endMs, untilMs) });
+      if (event.endMs > untilMs) later.push({ ...event, startMs: Math.max(event.startMs, untilMs) });
+    }
+    this.closed = later;
+    for (const [type, event] of this.open) {
+      if (event.startMs >= untilMs) continue;
+      events.push({ ...event, endMs: untilMs }); // Still going on at the end of the lap
+      this.open.set(type, { type, startMs: untilMs, endMs: Math.max(event.endMs, untilMs) });
+    }
+    return events.filter(event => event.endMs > event.startMs).sort((a, b) => a.startMs - b.startMs);
+  }
+
+  private track(type: InputLevelIssue, active: boolean, startMs: number, nowMs: number): void {
+    const event = this.open.get(type);
+    if (active && event) {
+      event.endMs = nowMs;
+    } else if (active) {
+      this.open.set(type, { type, startMs, endMs: nowMs });
+    } else if (event) {
+      this.open.delete(type);
+      this.closed.push(event);
+    }
+  }
+}
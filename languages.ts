@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {Note} from './types';
+
+export interface Language {
+  code: string; // ISO 639-1
+  name: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'ar', name: 'Arabic' },
+  { code: 'bg', name: 'Bulgarian' },
+  { code: 'cs', name: 'Czech' },
+  { code: 'da', name: 'Danish' },
+  { code: 'de', name: 'German' },
+  { code: 'el', name: 'Greek' },
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fi', name: 'Finnish' },
+  { code: 'fr', name: 'French' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'hr', name: 'Croatian' },
+  { code: 'hu', name: 'Hungarian' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'lt', name: 'Lithuanian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'no', name: 'Norwegian' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ro', name: 'Romanian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'sk', name: 'Slovak' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'th', name: 'Thai' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'zh', name: 'Chinese' },
+];
+
+// The first line of a transcription, where the model is asked to name the
+// languages it heard, e.g. "LANGUAGE: pl, en". Tolerates markdown around it,
+// as in "**LANGUAGE:** pl, en" or "# Language: pl".
+const LANGUAGE_LINE_PATTERN = /^\s*[#>*_ \t]*\[?[*_]*LANGUAGES?[*_]*[ \t]*:[*_ \t]*([^\]\n]*?)[*_ \t]*\]?[*_ \t]*(?:\n|$)/i;
+
+// A code fence the model sometimes wraps its whole reply in.
+const OPENING_FENCE_PATTERN = /^\s*(?:```|~~~)[^\n]*\n/;
+const CLOSING_FENCE_PATTERN = /\n[ \t]*(?:```|~~~)\s*$/;
+
+export function languageName(code: string): string {
+  return LANGUAGES.find(language => language.code === code)?.name ?? code;
+}
+
+export function formatLanguages(codes: string[]): string {
+  return codes.map(languageName).join(', ');
+}
+
+/**
+ * Instructions for the transcription prompt. No languages means detect
+ * them; several means the speaker may switch between them.
+ */
+export function languageInstruction(codes: string[]): string {
+  const names = codes.map(languageName).join(' and ');
+  const expected = codes.length === 0
+    ? 'Detect the language(s) spoken.'
+    : codes.length === 1
+      ? `The audio is in ${names}.`
+      : `The speakers may switch between ${names}, even mid-sentence.`;
+  return `${expected} Write every word in the language it was spoken in, in its own script, and never translate. ` +
+    'Start your reply with a line "LANGUAGE: " followed by the ISO 639-1 codes of the languages actually spoken, ' +
+    'separated by commas and most used first, then the transcription on the following lines.';
+}
+
+/** Splits the language line off a transcription, if the model wrote one. */
+export function extractLanguages(text: string): { text: string; languages: string[] } {
+  const fenced = OPENING_FENCE_PATTERN.test(text);
+  const reply = fenced ? text.replace(OPENING_FENCE_PATTERN, '').replace(CLOSING_FENCE_PATTERN, '') : text;
+  const match = LANGUAGE_LINE_PATTERN.exec(reply);
+  if (!match) return { text, languages: [] };
+  const languages = match[1].replace(/[[\](){}]/g, ' ').split(/[,;/\s]+/)
+    .map(languageCode)
+    .filter((code): code is string => code !== null);
+  // A line naming no language we know is left in, in case it was speech.
+  if (languages.length === 0) return { text, languages: [] };
+  return { text: reply.slice(match[0].length).replace(/^\s*\n/, ''), languages: [...new Set(languages)] };
+}
+
+// The code for a language given by code or by English name, e.g. "pl" or
+// "Polish". Two-letter codes outside LANGUAGES are taken as they are.
+function languageCode(token: string): string | null {
+  const value = token.trim().toLowerCase();
+  const language = LANGUAGES.find(l => l.code === value || l.name.toLowerCase() === value);
+  if (language) return language.code;
+  return /^[a-z]{2}$/.test(value) ? value : null;
+}
+
+/** Languages detected across all of a note's laps, most common first. */
+export function noteLanguages(note: Note): string[] {
+  const counts = new Map<string, number>();
+  for (const lap of note.laps) {
+    (lap.languages ?? []).forEach(code => counts.set(code, (counts.get(code) ?? 0) + 1));
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([code]) => code);
+}
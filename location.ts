@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {NoteLocation} from './types';
+
+// How new notes get their location.
+export type LocationMode = 'none' | 'manual' | 'geolocation';
+
+// A named place the user has saved. Places with coordinates double as the
+// local lookup table that turns a browser position into a name.
+export interface SavedPlace {
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface LocationSettings {
+  mode: LocationMode;
+  defaultPlace: string | null; // Saved place given to new notes in manual mode
+  nearbyRadiusKm: number; // How close a position must be to a saved place to take its name
+}
+
+export const DEFAULT_LOCATION_SETTINGS: LocationSettings = {
+  mode: 'none',
+  defaultPlace: null,
+  nearbyRadiusKm: 5,
+};
+
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+/** Great-circle distance between two points, in kilometres. */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/** Coordinates written out, e.g. "50.0614° N, 19.9366° E". */
+export function formatCoordinates(latitude: number, longitude: number): string {
+  const lat = `${Math.abs(latitude).toFixed(4)}° ${latitude >= 0 ? 'N' : 'S'}`;
+  const lon = `${Math.abs(longitude).toFixed(4)}° ${longitude >= 0 ? 'E' : 'W'}`;
+  return `${lat}, ${lon}`;
+}
+
+/**
+ * Names a position after the nearest saved place within the radius, or
+ * falls back to its coordinates. Stands in for an online reverse-geocoding
+ * service, so positions never leave the browser.
+ */
+export function reverseGeocode(latitude: number, longitude: number, places: SavedPlace[], radiusKm: number): string {
+  let nearest: SavedPlace | null = null;
+  let nearestKm = radiusKm;
+  for (const place of places) {
+    if (place.latitude === null || place.longitude === null) continue;
+    const km = distanceKm(latitude, longitude, place.latitude, place.longitude);
+    if (km <= nearestKm) {
+      nearest = place;
+      nearestKm = km;
+    }
+  }
+  return nearest?.name ?? formatCoordinates(latitude, longitude);
+}
+
+/** Asks the browser for its position once. Rejects if denied or unavailable. */
+export function getCurrentPosition(): Promise<GeolocationCoordinates> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported by this browser.'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve(position.coords),
+      error => reject(new Error(error.message || 'Could not get the current position.')),
+      { enableHighAccuracy: false, timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 5 * 60 * 1000 },
+    );
+  });
+}
+
+/** Looks up the current position and names it from the saved places. */
+export async function locateNote(places: SavedPlace[], radiusKm: number): Promise<NoteLocation> {
+  const { latitude, longitude } = await getCurrentPosition();
+  return { name: reverseGeocode(latitude, longitude, places, radiusKm), latitude, longitude, source: 'geolocation' };
+}
+
+export function placeToLocation(place: SavedPlace): NoteLocation {
+  return { name: place.name, latitude: place.latitude, longitude: place.longitude, source: 'manual' };
+}
+
+/** Adds the place, replacing any saved place with the same name. */
+export function upsertPlace(places: SavedPlace[], place: SavedPlace): SavedPlace[] {
+  const key = place.name.trim().toLowerCase();
+  return [...places.filter(p => p.name.trim().toLowerCase() !== key), place]
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {exportFileName, formatIsoInTimeZone, noteToMarkdown} from './markdownExport';
+import type {Note} from './types';
+
+function makeNote(overrides: Partial<Note> = {}): Note {
+  return {
+    id: 'note_1',
+    rawTranscription: '[00:00] Speaker 1: hello',
+    polishedNote: '# Plan: "Q3" review\n\nBody text.',
+    timestamp: Date.UTC(2025, 6, 21, 7, 30, 0),
+    timeZone: 'Europe/Warsaw',
+    location: null,
+    duration: 95000,
+    audioSize: 1234,
+    codec: null,
+    sampleRate: null,
+    channels: null,
+    modeId: 'journal',
+    promptTokens: 10,
+    completionTokens: 20,
+    cost: 0.001,
+    laps: [],
+    renditions: [],
+    activeRenditionId: null,
+    ...overrides,
+  };
+}
+
+const context = { timeZone: 'Europe/Warsaw', modeName: 'Journal Entry' };
+const settings = { includeRawTranscription: false, filenamePattern: '' };
+
+// The lines between the front-matter fences.
+function frontMatter(markdown: string): string[] {
+  const lines = markdown.split('\n');
+  return lines.slice(1, lines.indexOf('---', 1));
+}
+
+describe('formatIsoInTimeZone', () => {
+  it('writes local time with the zone offset', () => {
+    expect(formatIsoInTimeZone(Date.UTC(2025, 6, 21, 7, 30, 0), 'Europe/Warsaw')).toBe('2025-07-21T09:30:00+02:00');
+    expect(formatIsoInTimeZone(Date.UTC(2025, 0, 5, 23, 0, 0), 'America/New_York')).toBe('2025-01-05T18:00:00-05:00');
+  });
+
+  it('writes UTC as +00:00', () => {
+    expect(formatIsoInTimeZone(Date.UTC(2025, 0, 1), 'UTC')).toBe('2025-01-01T00:00:00+00:00');
+  });
+});
+
+describe('noteToMarkdown', () => {
+  it('quotes and escapes strings in the front-matter', () => {
+    const lines = frontMatter(noteToMarkdown(makeNote(), context, settings));
+    expect(lines).toContain('title: "Plan: \\"Q3\\" review"');
+    expect(lines).toContain('mode: "Journal Entry"');
+    expect(lines).toContain('date: 2025-07-21T09:30:00+02:00');
+    expect(lines).toContain('duration: "00:01:35"');
+  });
+
+  it('escapes names that would otherwise break the YAML', () => {
+    const note = makeNote({ location: { name: 'Home\n---\nkey: value', latitude: 50.06, longitude: 19.94, source: 'manual' } });
+    const lines = frontMatter(noteToMarkdown(note, context, settings));
+    expect(lines).toContain('location: "Home\\n---\\nkey: value"');
+    expect(lines).toContain('coordinates: [50.06, 19.94]');
+  });
+
+  it('adds the raw transcription only when asked to', () => {
+    expect(noteToMarkdown(makeNote(), context, settings)).not.toContain('Raw transcription');
+    const markdown = noteToMarkdown(makeNote(), context, { ...settings, includeRawTranscription: true });
+    expect(markdown).toContain('~~~text\n[00:00] Speaker 1: hello\n~~~');
+  });
+
+  it('stands in for a missing polished note', () => {
+    expect(noteToMarkdown(makeNote({ polishedNote: '' }), context, settings)).toContain('_No polished note._');
+  });
+});
+
+describe('exportFileName', () => {
+  it('fills in the default pattern', () => {
+    expect(exportFileName('', makeNote(), context)).toBe('2025-07-21-journal-entry-plan-q3-review.md');
+  });
+
+  it('replaces characters not allowed in file names', () => {
+    expect(exportFileName('{date} {time}: {id}?', makeNote(), context)).toBe('2025-07-21 0930- note_1-.md');
+  });
+
+  it('leaves unknown tokens and does not double the extension', () => {
+    expect(exportFileName('{nope}.md', makeNote(), context)).toBe('{nope}.md');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {noteTitle} from './history';
+import {noteLanguages} from './languages';
+import type {Note} from './types';
+
+export const DEFAULT_FILENAME_PATTERN = '{date}-{mode}-{title}';
+
+export const FILENAME_TOKENS = ['{date}', '{time}', '{mode}', '{title}', '{id}'];
+
+export interface MarkdownExportSettings {
+  includeRawTranscription: boolean;
+  filenamePattern: string;
+}
+
+export interface MarkdownExportContext {
+  timeZone: string;
+  modeName: string;
+}
+
+function zonedParts(timestamp: number, timeZone: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+    hourCycle: 'h23', timeZone, timeZoneName: 'longOffset',
+  }).formatToParts(new Date(timestamp));
+  return Object.fromEntries(parts.map(part => [part.type, part.value]));
+}
+
+// ISO 8601 timestamp with the offset of the given timezone, e.g. 2025-07-21T09:30:00+02:00.
+export function formatIsoInTimeZone(timestamp: number, timeZone: string): string {
+  const p = zonedParts(timestamp, timeZone);
+  const offset = p.timeZoneName === 'GMT' ? '+00:00' : p.timeZoneName.replace('GMT', '');
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}:${p.second}${offset}`;
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value); // JSON strings are valid double-quoted YAML scalars
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * Renders a note as markdown with YAML front-matter, ready to drop into an
+ * Obsidian or Logseq vault.
+ */
+export function noteToMarkdown(note: Note, context: MarkdownExportContext, settings: MarkdownExportSettings): string {
+  const languages = noteLanguages(note);
+  const frontMatter = [
+    '---',
+    `title: ${yamlString(noteTitle(note))}`,
+    `date: ${formatIsoInTimeZone(note.timestamp, context.timeZone)}`,
+    `timezone: ${yamlString(context.timeZone)}`,
+    ...(note.location ? [`location: ${yamlString(note.location.name)}`] : []),
+    ...(note.location?.latitude != null && note.location.longitude != null
+      ? [`coordinates: [${note.location.latitude}, ${note.location.longitude}]`] : []),
+    `duration: ${yamlString(formatClock(note.duration))}`,
+    `duration_seconds: ${Math.round(note.duration / 1000)}`,
+    `audio_size_bytes: ${note.audioSize}`,
+    ...(note.codec ? [`audio_codec: ${yamlString(note.codec)}`] : []),
+    ...(note.sampleRate ? [`sample_rate_hz: ${note.sampleRate}`] : []),
+    ...(note.channels ? [`channels: ${note.channels}`] : []),
+    ...(languages.length > 0 ? [`languages: [${languages.join(', ')}]`] : []),
+    `mode: ${yamlString(context.modeName)}`,
+    `prompt_tokens: ${note.promptTokens}`,
+    `completion_tokens: ${note.completionTokens}`,
+    `cost_usd: ${note.cost.toFixed(5)}`,
+    '---',
+  ].join('\n');
+
+  const body = note.polishedNote.trim() || '_No polished note._';
+  let markdown = `${frontMatter}\n\n${body}\n`;
+
+  if (settings.includeRawTranscription && note.rawTranscription.trim()) {
+    markdown += `\n<details>\n<summary>Raw transcription</summary>\n\n~~~text\n${note.rawTranscription.trim()}\n~~~\n\n</details>\n`;
+  }
+  return markdown;
+}
+
+export function exportFileName(pattern: string, note: Note, context: MarkdownExportContext): string {
+  const p = zonedParts(note.timestamp, context.timeZone);
+  const values: Record<string, string> = {
+    date: `${p.year}-${p.month}-${p.day}`,
+    time: `${p.hour}${p.minute}`,
+    mode: slugify(context.modeName),
+    title: slugify(noteTitle(note)) || 'untitled',
+    id: note.id,
+  };
+  const name = (pattern.trim() || DEFAULT_FILENAME_PATTERN)
+    .replace(/\{(\w+)\}/g, (token, key) => values[key] ?? token)
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return `${name.replace(/\.md$/i, '') || note.id}.md`;
+}
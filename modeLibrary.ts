@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {Mode} from './types';
+
+const STORAGE_KEY = 'userModes';
+const STORAGE_VERSION = 1;
+
+// Before the mode library existed, the single "Custom Instructions" mode kept
+// its prompt under this key. It is migrated into the library on first load.
+const LEGACY_CUSTOM_PROMPT_KEY = 'customPromptInstructions';
+const LEGACY_CUSTOM_MODE_ID = 'custom';
+
+// A helpful default prompt for first-time users.
+export const DEFAULT_CUSTOM_INSTRUCTIONS = `You are a helpful assistant. Please follow these instructions:
+- Summarize the text into three bullet points.
+- Identify any questions asked within the text.
+- List all action items clearly using markdown checkboxes.`;
+
+interface StoredModeLibrary {
+  version: number;
+  modes: Array<Pick<Mode, 'id' | 'name' | 'instructions'>>;
+}
+
+export function createModeId(): string {
+  return `user_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Loads the user's own modes, migrating the legacy custom prompt if needed. */
+export function loadUserModes(): Mode[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      const library = JSON.parse(saved) as StoredModeLibrary;
+      if (Array.isArray(library.modes)) {
+        return library.modes
+          .filter(mode => mode && typeof mode.id === 'string' && typeof mode.name === 'string' && typeof mode.instructions === 'string')
+          .map(mode => ({ id: mode.id, name: mode.name, instructions: mode.instructions }));
+      }
+    } catch (error) {
+      console.warn('Ignoring invalid saved modes:', error);
+    }
+  }
+
+  // Keep the legacy id so notes polished with "Custom Instructions" still resolve.
+  const modes: Mode[] = [{
+    id: LEGACY_CUSTOM_MODE_ID,
+    name: 'Custom Instructions',
+    instructions: localStorage.getItem(LEGACY_CUSTOM_PROMPT_KEY) || DEFAULT_CUSTOM_INSTRUCTIONS,
+  }];
+  saveUserModes(modes);
+  localStorage.removeItem(LEGACY_CUSTOM_PROMPT_KEY);
+  return modes;
+}
+
+export function saveUserModes(modes: Mode[]): void {
+  const library: StoredModeLibrary = {
+    version: STORAGE_VERSION,
+    modes: modes.filter(mode => !mode.builtIn).map(({ id, name, instructions }) => ({ id, name, instructions })),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+}
+
+// Picks a name not used by any of the modes, e.g. "Copy of Action Plan (2)".
+export function uniqueModeName(name: string, modes: Mode[]): string {
+  const taken = new Set(modes.map(mode => mode.name.trim().toLowerCase()));
+  if (!taken.has(name.trim().toLowerCase())) return name;
+  for (let i = 2; ; i++) {
+    const candidate = `${name} (${i})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+const EXPORT_FORMAT = 'voice-notes-modes';
+const EXPORT_VERSION = 1;
+const MAX_NAME_LENGTH = 100;
+
+// A mode as it travels between users: everything but the local id.
+export type ModeDefinition = Omit<Mode, 'id' | 'builtIn'>;
+
+interface ModeExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  modes: ModeDefinition[];
+}
+
+export function serializeModes(modes: Mode[]): string {
+  const file: ModeExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    modes: modes.map(({ id, builtIn, ...definition }) => definition),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Parses and validates an exported modes file, throwing a readable error if it is not one. */
+export function parseModesFile(text: string): ModeDefinition[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not a Voice Notes modes export.');
+  }
+  const { version, modes } = parsed;
+  if (typeof version !== 'number' || version < 1) {
+    throw new Error('The modes file has no valid version.');
+  }
+  if (version > EXPORT_VERSION) {
+    throw new Error(`The modes file was created by a newer version of the app (version ${version}).`);
+  }
+  if (!Array.isArray(modes) || modes.length === 0) {
+    throw new Error('The modes file does not contain any modes.');
+  }
+
+  return modes.map((mode: unknown, i: number) => {
+    const position = `Mode ${i + 1}`;
+    if (!isRecord(mode)) throw new Error(`${position} is not an object.`);
+    const { name, instructions } = mode;
+    if (typeof name !== 'string' || !name.trim()) throw new Error(`${position} has no name.`);
+    if (name.length > MAX_NAME_LENGTH) throw new Error(`${position} has a name longer than ${MAX_NAME_LENGTH} characters.`);
+    if (typeof instructions !== 'string' || !instructions.trim()) {
+      throw new Error(`${position} ("${name}") has no instructions.`);
+    }
+    return { name: name.trim(), instructions: instructions.trim() };
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
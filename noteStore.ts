@@ -0,0 +1,276 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {Note} from './types';
+
+const DB_NAME = 'voice-notes';
+const DB_VERSION = 4;
+const NOTES_STORE = 'notes';
+const AUDIO_STORE = 'audio';
+const TRANSCRIPTION_QUEUE_STORE = 'transcriptionQueue';
+const RECORDING_CHUNKS_STORE = 'recordingChunks';
+
+// Bump this whenever the shape of a stored Note changes and add a matching
+// step to migrateNote() so older records are upgraded when they are read.
+export const NOTE_SCHEMA_VERSION = 6;
+
+interface StoredNote extends Note {
+  schemaVersion: number;
+  updatedAt: number;
+}
+
+// A stored note of any schema version. Fields added after version 1 may be
+// missing until migrateNote() fills them in.
+type LegacyNote = Partial<StoredNote> & Pick<Note, 'id' | 'modeId' | 'polishedNote' | 'timestamp'>;
+
+interface StoredLapAudio {
+  id: string; // `${noteId}:${lapIndex}`
+  noteId: string;
+  lapIndex: number;
+  blob: Blob;
+}
+
+/**
+ * A piece of audio flushed while recording, kept until its lap has been
+ * transcribed so an interrupted session can be recovered.
+ */
+export interface RecordingChunk {
+  seq?: number; // Assigned by the store; orders the chunks
+  noteId: string;
+  lapIndex: number;
+  lapStartMs: number; // Session time at which the lap started
+  endMs: number; // Session time covered up to the end of this chunk
+  mimeType: string;
+  recordedAt: number;
+  blob: Blob;
+}
+
+/** A lap whose transcription failed and should be attempted again. */
+export interface QueuedTranscription {
+  id: string; // `${noteId}:${lapIndex}`
+  noteId: string;
+  lapIndex: number;
+  queuedAt: number;
+  lastError: string;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  // Each case falls through so a fresh install runs every step in order.
+  switch (oldVersion) {
+    case 0: {
+      const notes = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+      notes.createIndex('timestamp', 'timestamp');
+      notes.createIndex('modeId', 'modeId');
+    }
+    case 1: {
+      const audio = db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+      audio.createIndex('noteId', 'noteId');
+    }
+    case 2: {
+      const queue = db.createObjectStore(TRANSCRIPTION_QUEUE_STORE, { keyPath: 'id' });
+      queue.createIndex('noteId', 'noteId');
+    }
+    case 3: {
+      const chunks = db.createObjectStore(RECORDING_CHUNKS_STORE, { keyPath: 'seq', autoIncrement: true });
+      chunks.createIndex('noteId', 'noteId');
+    }
+  }
+}
+
+function migrateNote(record: LegacyNote): Note {
+  const note: LegacyNote = { ...record };
+  const version = note.schemaVersion ?? 1;
+  if (version < 2) {
+    note.laps = [];
+  }
+  if (version < 3) {
+    // Notes polished before renditions existed become a single rendition.
+    note.renditions = note.polishedNote ? [{
+      id: `${note.id}_r1`,
+      modeId: note.modeId,
+      markdown: note.polishedNote,
+      createdAt: note.timestamp,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+    }] : [];
+    note.activeRenditionId = note.renditions[0]?.id ?? null;
+  }
+  if (version < 4) {
+    note.codec = null;
+    note.sampleRate = null;
+    note.channels = null;
+  }
+  if (version < 5) {
+    note.timeZone = null;
+  }
+  if (version < 6) {
+    note.location = null;
+  }
+  delete note.schemaVersion;
+  delete note.updatedAt;
+  return note as Note;
+}
+
+/**
+ * Persists notes in IndexedDB so they survive reloads and new sessions.
+ */
+export class NoteStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not supported in this browser.'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab.'));
+      });
+      // Allow a later call to retry if opening failed.
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  /** Creates the note, failing if a note with the same id already exists. */
+  async create(note: Note): Promise<void> {
+    await this.write(note, 'add');
+  }
+
+  /** Creates or replaces the stored copy of the note. */
+  async update(note: Note): Promise<void> {
+    await this.write(note, 'put');
+  }
+
+  async get(id: string): Promise<Note | null> {
+    const db = await this.open();
+    const tx = db.transaction(NOTES_STORE, 'readonly');
+    const record = await requestToPromise(tx.objectStore(NOTES_STORE).get(id));
+    return record ? migrateNote(record) : null;
+  }
+
+  /** Returns every stored note, newest first. */
+  async getAll(): Promise<Note[]> {
+    const db = await this.open();
+    const tx = db.transaction(NOTES_STORE, 'readonly');
+    const records = await requestToPromise(tx.objectStore(NOTES_STORE).index('timestamp').getAll());
+    return records.map(migrateNote).reverse();
+  }
+
+  /** Deletes the note together with any audio and queued work stored for it. */
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const storeNames = [AUDIO_STORE, TRANSCRIPTION_QUEUE_STORE, RECORDING_CHUNKS_STORE];
+    const tx = db.transaction([NOTES_STORE, ...storeNames], 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(NOTES_STORE).delete(id);
+    for (const storeName of storeNames) {
+      const store = tx.objectStore(storeName);
+      const keys = await requestToPromise(store.index('noteId').getAllKeys(id));
+      keys.forEach(key => store.delete(key));
+    }
+    await done;
+  }
+
+  async saveLapAudio(noteId: string, lapIndex: number, blob: Blob): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(AUDIO_STORE, 'readwrite');
+    const record: StoredLapAudio = { id: `${noteId}:${lapIndex}`, noteId, lapIndex, blob };
+    tx.objectStore(AUDIO_STORE).put(record);
+    await transactionDone(tx);
+  }
+
+  /** Returns the stored audio of a note keyed by lap index. */
+  async getLapAudio(noteId: string): Promise<Map<number, Blob>> {
+    const db = await this.open();
+    const tx = db.transaction(AUDIO_STORE, 'readonly');
+    const records: StoredLapAudio[] = await requestToPromise(tx.objectStore(AUDIO_STORE).index('noteId').getAll(noteId));
+    return new Map(records.map(record => [record.lapIndex, record.blob]));
+  }
+
+  /** Adds the lap to the transcription queue, or updates its last error. */
+  async queueTranscription(noteId: string, lapIndex: number, lastError: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(TRANSCRIPTION_QUEUE_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(TRANSCRIPTION_QUEUE_STORE);
+    const id = `${noteId}:${lapIndex}`;
+    const existing: QueuedTranscription | undefined = await requestToPromise(store.get(id));
+    const record: QueuedTranscription = { id, noteId, lapIndex, queuedAt: existing?.queuedAt ?? Date.now(), lastError };
+    store.put(record);
+    await done;
+  }
+
+  async dequeueTranscription(noteId: string, lapIndex: number): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(TRANSCRIPTION_QUEUE_STORE, 'readwrite');
+    tx.objectStore(TRANSCRIPTION_QUEUE_STORE).delete(`${noteId}:${lapIndex}`);
+    await transactionDone(tx);
+  }
+
+  /** Returns the queued laps, oldest first. */
+  async getQueuedTranscriptions(): Promise<QueuedTranscription[]> {
+    const db = await this.open();
+    const tx = db.transaction(TRANSCRIPTION_QUEUE_STORE, 'readonly');
+    const records: QueuedTranscription[] = await requestToPromise(tx.objectStore(TRANSCRIPTION_QUEUE_STORE).getAll());
+    return records.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async saveRecordingChunk(chunk: RecordingChunk): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(RECORDING_CHUNKS_STORE, 'readwrite');
+    tx.objectStore(RECORDING_CHUNKS_STORE).add(chunk);
+    await transactionDone(tx);
+  }
+
+  /** Returns every chunk left over from unfinished recordings, in recording order. */
+  async getRecordingChunks(): Promise<RecordingChunk[]> {
+    const db = await this.open();
+    const tx = db.transaction(RECORDING_CHUNKS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(RECORDING_CHUNKS_STORE).getAll());
+  }
+
+  /** Drops the chunks of a note, or of one of its laps once it is safely transcribed. */
+  async deleteRecordingChunks(noteId: string, lapIndex?: number): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(RECORDING_CHUNKS_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(RECORDING_CHUNKS_STORE);
+    const chunks: RecordingChunk[] = await requestToPromise(store.index('noteId').getAll(noteId));
+    chunks
+      .filter(chunk => lapIndex === undefined || chunk.lapIndex === lapIndex)
+      .forEach(chunk => store.delete(chunk.seq!));
+    await done;
+  }
+
+  private async write(note: Note, method: 'add' | 'put'): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(NOTES_STORE, 'readwrite');
+    const record: StoredNote = { ...note, schemaVersion: NOTE_SCHEMA_VERSION, updatedAt: Date.now() };
+    tx.objectStore(NOTES_STORE)[method](record);
+    await transactionDone(tx);
+  }
+}
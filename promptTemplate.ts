@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+}
+
+// Placeholders that can be used as {{name}} inside any mode's instructions.
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'date', description: 'Recording date, e.g. Monday, July 21, 2025' },
+  { name: 'time', description: 'Recording time, e.g. 9:30 AM' },
+  { name: 'timezone', description: 'Timezone the note was recorded in, e.g. Europe/Warsaw' },
+  { name: 'location', description: 'Where the note was recorded, if set' },
+  { name: 'duration', description: 'Total recording duration (mm:ss)' },
+  { name: 'lapCount', description: 'Number of laps in the session' },
+  { name: 'speakers', description: 'Speakers detected in the transcript' },
+  { name: 'title', description: 'Title of the note' },
+];
+
+export type TemplateValues = Record<string, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Matches an unfinished placeholder right before the caret, e.g. "{{spe".
+export const PARTIAL_PLACEHOLDER_PATTERN = /\{\{\s*(\w*)$/;
+
+/** Fills in known placeholders; unknown ones are left untouched. */
+export function resolveTemplate(template: string, values: TemplateValues): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+}
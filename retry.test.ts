@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {isTransientError, withRetry} from './retry';
+
+function apiError(status: number, message = `Request failed with ${status}`): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('isTransientError', () => {
+  it('retries rate limits and server errors', () => {
+    expect(isTransientError(apiError(429))).toBe(true);
+    expect(isTransientError(apiError(503))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isTransientError(apiError(400))).toBe(false);
+    expect(isTransientError(apiError(403, 'API key not valid'))).toBe(false);
+  });
+
+  it('recognises transient errors by their message', () => {
+    expect(isTransientError(new Error('got status: UNAVAILABLE'))).toBe(true);
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new Error('Invalid argument'))).toBe(false);
+  });
+
+  it('never retries a cancelled request', () => {
+    expect(isTransientError(new DOMException('The operation was aborted.', 'AbortError'))).toBe(false);
+  });
+
+  it('retries network failures while offline but not permanent errors', () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    expect(isTransientError(new TypeError('Load failed'))).toBe(true);
+    expect(isTransientError(apiError(400, 'API key not valid'))).toBe(false);
+    expect(isTransientError(new Error('Invalid argument'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until the task succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+    await expect(withRetry(task, { baseDelayMs: 1, onRetry })).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(call => call[0])).toEqual([1, 2]);
+  });
+
+  it('rethrows the last error once the retries are used up', async () => {
+    const task = vi.fn().mockRejectedValue(apiError(503, 'still down'));
+    await expect(withRetry(task, { retries: 2, baseDelayMs: 1 })).rejects.toThrow('still down');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry permanent errors', async () => {
+    const task = vi.fn().mockRejectedValue(apiError(400));
+    await expect(withRetry(task, { baseDelayMs: 1 })).rejects.toThrow('400');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when cancelled', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(apiError(503));
+    const onRetry = () => controller.abort(new Error('cancelled')); // While waiting to retry
+    await expect(withRetry(task, { baseDelayMs: 60000, signal: controller.signal, onRetry })).rejects.toThrow('cancelled');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the backoff within the maximum delay', async () => {
+    const delays: number[] = [];
+    const task = vi.fn().mockRejectedValue(apiError(503));
+    await withRetry(task, { retries: 4, baseDelayMs: 2, maxDelayMs: 4, onRetry: (_, delayMs) => delays.push(delayMs) })
+      .catch(() => {});
+    expect(delays).toHaveLength(4);
+    delays.forEach(delayMs => expect(delayMs).toBeLessThanOrEqual(4));
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+const TRANSIENT_MESSAGE_PATTERN = /\b(?:408|429|500|502|503|504)\b|UNAVAILABLE|RESOURCE_EXHAUSTED|DEADLINE_EXCEEDED|overloaded|failed to fetch|network ?error|timed? ?out/i;
+
+export interface RetryOptions {
+  retries?: number; // Attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  isRetryable?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+/**
+ * Whether an API error is worth retrying: rate limits, overloaded or
+ * unavailable servers, timeouts and dropped connections.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof Error && error.name === 'AbortError') return false;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUS_CODES.includes(status);
+  const message = error instanceof Error ? error.message : String(error);
+  if (TRANSIENT_MESSAGE_PATTERN.test(message)) return true;
+  // Requests made while offline fail in fetch with a TypeError, whatever the
+  // browser words its message as.
+  return error instanceof TypeError && typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs the task, retrying transient failures with exponential backoff and
+ * jitter. The last error is rethrown once the retries are used up.
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, signal, isRetryable = isTransientError, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt > retries || signal?.aborted || !isRetryable(error)) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.round(backoff / 2 + Math.random() * backoff / 2);
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {buildCues, toSrt, toWebVtt} from './subtitles';
+import {parseSessionTranscript} from './transcript';
+
+const cuesOf = (transcript: string) => buildCues(parseSessionTranscript(transcript));
+
+describe('buildCues', () => {
+  it('runs each cue until the next timestamped line', () => {
+    const cues = cuesOf('[00:00] Speaker 1: one\n[00:04] Speaker 2: two');
+    expect(cues[0]).toMatchObject({ startMs: 0, endMs: 4000, speaker: 'Speaker 1', text: 'one' });
+    expect(cues[1].startMs).toBe(4000);
+  });
+
+  it('ends the last cue of a lap at the lap end', () => {
+    const cues = cuesOf('--- LAP 1 (0:00 - 0:10) ---\n[00:02] Speaker 1: one');
+    expect(cues[0].endMs).toBe(10000);
+  });
+
+  it('appends untimed lines to the cue before them', () => {
+    const cues = cuesOf('[00:00] Speaker 1: one\nSpeaker 1: and more\nSpeaker 2: reply');
+    expect(cues).toHaveLength(1);
+    expect(cues[0].text).toBe('one and more Speaker 2: reply');
+  });
+
+  it('ends a cue at a marker line without making a cue of it', () => {
+    const cues = cuesOf('[00:00] Speaker 1: one\n[00:03] [PAUSE]\n[00:08] Speaker 1: two');
+    expect(cues.map(cue => [cue.startMs, cue.endMs])).toEqual([[0, 3000], [8000, 13000]]);
+  });
+
+  it('never lets a cue overlap the next one', () => {
+    const cues = cuesOf([
+      '--- LAP 1 (0:00 - 0:10) ---',
+      '[00:00] Speaker 1: one',
+      '[00:00.5] Speaker 1: two',
+      '--- LAP 2 (0:10 - 0:20) ---',
+      '[00:00] Speaker 1: three',
+    ].join('\n'));
+    cues.slice(1).forEach((cue, i) => expect(cues[i].endMs).toBeLessThanOrEqual(cue.startMs));
+    expect(cues[0].endMs).toBe(500);
+  });
+
+  it('keeps a minimum duration when there is room for it', () => {
+    const cues = cuesOf('--- LAP 1 (0:00 - 0:01) ---\n[00:00.8] Speaker 1: late');
+    expect(cues[0].endMs - cues[0].startMs).toBe(1000);
+  });
+});
+
+describe('subtitle formats', () => {
+  const cues = [{ startMs: 3723004, endMs: 3725000, speaker: 'Anna', text: 'a < b' }];
+
+  it('writes SRT with comma milliseconds and speaker prefixes', () => {
+    expect(toSrt(cues)).toBe('1\n01:02:03,004 --> 01:02:05,000\nAnna: a < b\n');
+  });
+
+  it('writes WebVTT with voice tags and escaped text', () => {
+    expect(toWebVtt(cues)).toBe('WEBVTT\n\n01:02:03.004 --> 01:02:05.000\n<v Anna>a &lt; b\n');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {TranscriptLap, TranscriptPart} from './transcript';
+
+// Used for the last cue of a lap when the lap's end time is unknown.
+const DEFAULT_CUE_DURATION_MS = 5000;
+const MIN_CUE_DURATION_MS = 1000;
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  speaker: string | null;
+  text: string;
+}
+
+function partsToCaption(parts: TranscriptPart[]): string {
+  return parts
+    .map(part => {
+      switch (part.type) {
+        case 'words': return part.text;
+        case 'unclear': return '[unclear]';
+        case 'background': return part.text ? `[${part.text}]` : '';
+        default: return ''; // Pauses are implied by the timing
+      }
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Turns parsed laps into timed cues. Each timestamped line starts a cue that
+ * runs until the next timestamped line of the same lap, or the lap's end.
+ * Untimed continuation lines are appended to the preceding cue.
+ */
+export function buildCues(laps: TranscriptLap[]): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  for (const lap of laps) {
+    const lapCues: SubtitleCue[] = [];
+    for (const segment of lap.segments) {
+      if (segment.kind === 'text') continue;
+      const caption = partsToCaption(segment.parts);
+      const previous = lapCues[lapCues.length - 1];
+      if (segment.startMs === null) {
+        if (previous && caption) {
+          const sameSpeaker = !segment.speaker || segment.speaker === previous.speaker;
+          previous.text = `${previous.text} ${sameSpeaker ? caption : `${segment.speaker}: ${caption}`}`.trim();
+        }
+        continue;
+      }
+      lapCues.push({ startMs: segment.startMs, endMs: segment.startMs, speaker: segment.speaker, text: caption });
+    }
+
+    // Marker-only lines (pauses, background noise) still end the cue before them.
+    lapCues.forEach((cue, i) => {
+      const next = lapCues[i + 1];
+      const fallbackEnd = lap.endMs !== null && lap.endMs > cue.startMs
+        ? lap.endMs
+        : cue.startMs + DEFAULT_CUE_DURATION_MS;
+      const end = next ? next.startMs : fallbackEnd;
+      cue.endMs = Math.max(end, cue.startMs + MIN_CUE_DURATION_MS);
+    });
+    cues.push(...lapCues.filter(cue => cue.text));
+  }
+
+  // The minimum duration, or a guessed end, must not run into the next cue,
+  // which may be in the following lap.
+  cues.forEach((cue, i) => {
+    const next = cues[i + 1];
+    if (next && next.startMs > cue.startMs) cue.endMs = Math.min(cue.endMs, next.startMs);
+  });
+  return cues;
+}
+
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${separator}${String(millis).padStart(3, '0')}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => {
+      const text = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+      return `${i + 1}\n${formatCueTime(cue.startMs, ',')} --> ${formatCueTime(cue.endMs, ',')}\n${text}\n`;
+    })
+    .join('\n');
+}
+
+export function toWebVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => {
+      const text = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text);
+      return `${formatCueTime(cue.startMs, '.')} --> ${formatCueTime(cue.endMs, '.')}\n${text}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {TaskQueue} from './taskQueue';
+
+function deferred(): { promise: Promise<void>; resolve: () => void; reject: (error: Error) => void } {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('TaskQueue', () => {
+  it('runs at most `concurrency` tasks at once, in the order added', async () => {
+    const queue = new TaskQueue(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    gates.forEach((gate, i) => queue.add(async () => { started.push(i); await gate.promise; }));
+
+    await tick();
+    expect(started).toEqual([0, 1]);
+    expect(queue.pending).toBe(3);
+
+    gates[1].resolve();
+    await tick();
+    expect(started).toEqual([0, 1, 2]);
+    expect(queue.pending).toBe(2);
+  });
+
+  it('settles each task with its own result or error', async () => {
+    const queue = new TaskQueue(1);
+    const result = queue.add(async () => 42);
+    const failure = queue.add(async () => { throw new Error('boom'); });
+    await expect(result).resolves.toBe(42);
+    await expect(failure).rejects.toThrow('boom');
+  });
+
+  it('carries on after a task fails', async () => {
+    const queue = new TaskQueue(1);
+    queue.add(async () => { throw new Error('boom'); }).catch(() => {});
+    await expect(queue.add(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('resolves onIdle once every task has settled', async () => {
+    const queue = new TaskQueue(1);
+    await queue.onIdle(); // Idle from the start
+
+    const gate = deferred();
+    queue.add(() => gate.promise);
+    let idle = false;
+    queue.onIdle().then(() => { idle = true; });
+    await tick();
+    expect(idle).toBe(false);
+
+    gate.resolve();
+    await tick();
+    expect(idle).toBe(true);
+    expect(queue.pending).toBe(0);
+  });
+});
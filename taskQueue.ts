@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+/**
+ * Runs async tasks in the order they were added, with at most `concurrency`
+ * of them in flight at once.
+ */
+export class TaskQueue {
+  private waiting: Array<() => void> = [];
+  private idleWaiters: Array<() => void> = [];
+  private running = 0;
+
+  constructor(private readonly concurrency: number) {}
+
+  /** Tasks that are running or still waiting for a slot. */
+  get pending(): number {
+    return this.running + this.waiting.length;
+  }
+
+  add<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.waiting.push(() => {
+        this.running++;
+        task().then(resolve, reject).finally(() => {
+          this.running--;
+          this.next();
+        });
+      });
+      this.next();
+    });
+  }
+
+  /** Resolves once every task added so far has settled. */
+  onIdle(): Promise<void> {
+    if (this.pending === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private next(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      this.waiting.shift()!();
+    }
+    if (this.pending === 0) {
+      this.idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+}
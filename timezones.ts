@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Timezone lists and lookups for the timezone picker.
+
+// Used when the runtime can't list its zones.
+const FALLBACK_TIME_ZONES = [
+  'UTC', 'Europe/Warsaw', 'Europe/London', 'Europe/Paris', 'Europe/Berlin',
+  'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles',
+  'Asia/Tokyo', 'Asia/Dubai', 'Asia/Kolkata', 'Australia/Sydney',
+];
+
+const MAX_RECENT_TIME_ZONES = 5;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Every IANA zone the runtime supports, sorted, always including UTC. */
+export function supportedTimeZones(): string[] {
+  let zones: string[];
+  try {
+    zones = Intl.supportedValuesOf('timeZone');
+  } catch {
+    zones = FALLBACK_TIME_ZONES;
+  }
+  return [...new Set(['UTC', ...zones])].sort();
+}
+
+/** The zone the browser resolves for the user, or UTC if it can't tell. */
+export function browserTimeZone(): string {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return zone && isValidTimeZone(zone) ? zone : 'UTC';
+}
+
+export function timeZoneLabel(timeZone: string): string {
+  return timeZone.replace(/_/g, ' ');
+}
+
+/** Current offset of the zone, such as "GMT+2" or "GMT-3:30". */
+export function timeZoneOffset(timeZone: string, date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? '';
+}
+
+/**
+ * Zones matching every word of the query against the zone name or its
+ * offset, so "new york", "kolkata" and "gmt+9" all find something.
+ */
+export function searchTimeZones(zones: string[], query: string, offsetOf: (timeZone: string) => string = timeZoneOffset): string[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return zones;
+  return zones.filter(zone => {
+    const haystack = `${timeZoneLabel(zone)} ${offsetOf(zone)}`.toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+/** Moves the zone to the front of the recent list, keeping it short. */
+export function addRecentTimeZone(recent: string[], timeZone: string): string[] {
+  return [timeZone, ...recent.filter(zone => zone !== timeZone)].slice(0, MAX_RECENT_TIME_ZONES);
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {parseLapTranscript, parseParts, parseSessionTranscript, parseTimestamp, replaceLapText} from './transcript';
+
+describe('parseTimestamp', () => {
+  it('reads minutes and seconds', () => {
+    expect(parseTimestamp('01:30')).toBe(90000);
+  });
+
+  it('reads hours and fractional seconds', () => {
+    expect(parseTimestamp('1:02:03.5')).toBe(3723500);
+    expect(parseTimestamp('00:04,25')).toBe(4250);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimestamp('90')).toBeNull();
+    expect(parseTimestamp('a:b')).toBeNull();
+  });
+});
+
+describe('parseSessionTranscript', () => {
+  const transcript = [
+    '--- LAP 1 (0:00 - 1:30) ---',
+    '',
+    '[00:05] Speaker 1: first lap',
+    '',
+    '--- LAP 2 (1:30 - 3:05) [auto: silence] ---',
+    '',
+    '[00:10] Speaker 1: second lap',
+  ].join('\n');
+
+  it('splits the transcript at the lap headers', () => {
+    const laps = parseSessionTranscript(transcript);
+    expect(laps.map(lap => lap.index)).toEqual([1, 2]);
+    expect(laps[1].header).toBe('--- LAP 2 (1:30 - 3:05) [auto: silence] ---');
+  });
+
+  it('times laps from their headers and shifts segments by the lap start', () => {
+    const laps = parseSessionTranscript(transcript);
+    expect(laps[1].startMs).toBe(90000);
+    expect(laps[1].endMs).toBe(185000);
+    expect(laps[1].segments.find(segment => segment.kind === 'speech')?.startMs).toBe(100000);
+  });
+
+  it('prefers the recorded lap timings over the header', () => {
+    const laps = parseSessionTranscript(transcript, [
+      { index: 2, startMs: 91000, endMs: 186000, audioSize: 0, mimeType: 'audio/webm' },
+    ]);
+    expect(laps[1].startMs).toBe(91000);
+    expect(laps[1].endMs).toBe(186000);
+  });
+
+  it('treats a transcript without headers as a single lap', () => {
+    const laps = parseSessionTranscript('[00:01] Speaker 1: hello', [
+      { index: 1, startMs: 0, endMs: 60000, audioSize: 0, mimeType: 'audio/wav' },
+    ]);
+    expect(laps).toHaveLength(1);
+    expect(laps[0].header).toBeNull();
+    expect(laps[0].endMs).toBe(60000);
+  });
+
+  it('returns no laps for an empty transcript', () => {
+    expect(parseSessionTranscript('')).toEqual([]);
+  });
+});
+
+describe('parseLapTranscript', () => {
+  const parse = (line: string, lapStartMs = 0) => parseLapTranscript(line, lapStartMs)[0];
+
+  it('reads the timestamp, speaker and words of a line', () => {
+    const segment = parse('[00:15] Speaker 1: hello there', 60000);
+    expect(segment).toMatchObject({
+      kind: 'speech', offsetMs: 15000, startMs: 75000, speaker: 'Speaker 1', text: 'hello there',
+    });
+  });
+
+  it('tolerates time ranges and bold speaker labels', () => {
+    expect(parse('[00:15 - 00:20] **Speaker 2:** hi')).toMatchObject({ startMs: 15000, speaker: 'Speaker 2', text: 'hi' });
+    expect(parse('[00:15] **Anna**: hi')).toMatchObject({ speaker: 'Anna', text: 'hi' });
+  });
+
+  it('takes bold names and Speaker N as speakers on untimed lines', () => {
+    expect(parse('Speaker 3: carried on')).toMatchObject({ kind: 'speech', speaker: 'Speaker 3', text: 'carried on' });
+    expect(parse('**Bob:** yes')).toMatchObject({ kind: 'speech', speaker: 'Bob', text: 'yes' });
+  });
+
+  it('does not take ordinary sentences with a colon as speakers', () => {
+    expect(parse('[00:30] Note: buy milk')).toMatchObject({ speaker: null, text: 'Note: buy milk' });
+    expect(parse('I said this: no')).toMatchObject({ kind: 'text', speaker: null });
+  });
+
+  it('marks lines holding only markers', () => {
+    const segment = parse('[00:40] [PAUSE]');
+    expect(segment.kind).toBe('marker');
+    expect(segment.marker).toBe('pause');
+  });
+
+  it('keeps unrecognised lines as text', () => {
+    expect(parse('just some words')).toMatchObject({ kind: 'text', text: 'just some words', raw: 'just some words' });
+  });
+});
+
+describe('parseParts', () => {
+  it('splits words from markers', () => {
+    expect(parseParts('so [UNCLEAR] then [BACKGROUND: door closes] done [pause]')).toEqual([
+      { type: 'words', text: 'so' },
+      { type: 'unclear', text: '' },
+      { type: 'words', text: 'then' },
+      { type: 'background', text: 'door closes' },
+      { type: 'words', text: 'done' },
+      { type: 'pause', text: '' },
+    ]);
+  });
+});
+
+describe('replaceLapText', () => {
+  const header = (index: number) => `--- LAP ${index} (0:00 - 1:00) ---`;
+
+  it('replaces the text of an existing lap', () => {
+    const raw = `\n\n${header(1)}\n\nold\n\n${header(2)}\n\nsecond`;
+    expect(replaceLapText(raw, 1, 'new', header(1))).toBe(`\n\n${header(1)}\n\nnew\n\n${header(2)}\n\nsecond`);
+  });
+
+  it('inserts a lap in lap order', () => {
+    const raw = `\n\n${header(1)}\n\none\n\n${header(3)}\n\nthree`;
+    const result = replaceLapText(raw, 2, 'two', header(2));
+    expect(result).toBe(`\n\n${header(1)}\n\none\n\n${header(2)}\n\ntwo\n\n${header(3)}\n\nthree`);
+  });
+
+  it('replaces a headerless transcript outright', () => {
+    expect(replaceLapText('old text', 1, 'new text', null)).toBe('new text');
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {NoteLap} from './types';
+
+// Matches the lap separator written by processAudioSegment, e.g. "--- LAP 2 (01:30 - 03:05) ---",
+// or "--- LAP 3 (03:05 - 05:10) [auto: silence] ---" for laps split automatically.
+export const LAP_HEADER_PATTERN = /^--- LAP (\d+) \((\d+:\d{2}(?::\d{2})?) - (\d+:\d{2}(?::\d{2})?)\)(?: \[auto: ([\w -]+)\])? ---$/;
+
+const TIMESTAMP = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?`;
+
+// "[00:15] Speaker 1: words", tolerating "[00:15 - 00:20]" ranges.
+const SEGMENT_LINE_PATTERN = new RegExp(
+  String.raw`^\s*\[(${TIMESTAMP})(?:\s*[-–]\s*${TIMESTAMP})?\]\s*(.*)$`,
+);
+
+// A speaker label opening a line: the "Speaker N" the prompt asks for, or any
+// name set in bold ("**Anna:**" or "**Anna**:"). A plain "Name:" is not taken
+// as a speaker, since ordinary sentences ("Note: buy milk") look the same.
+const SPEAKER_LABEL_PATTERN = /^\s*(?:\*\*)?(Speaker \d+)\s*:(?:\*\*)?\s*(.*)$|^\s*\*\*([^:\[\]*]{1,40}?)\s*(?::\*\*|\*\*\s*:)\s*(.*)$/;
+
+const MARKER_PATTERN = /\[(PAUSE|UNCLEAR|BACKGROUND(?::\s*([^\]]*))?)\]/gi;
+
+export type MarkerType = 'pause' | 'unclear' | 'background';
+
+export interface TranscriptPart {
+  type: 'words' | MarkerType;
+  text: string; // The words, or the marker's description for background sounds
+}
+
+export interface TranscriptSegment {
+  // 'speech' has a timestamp and/or speaker, 'marker' is a line holding only
+  // markers, 'text' is anything the parser did not recognise.
+  kind: 'speech' | 'marker' | 'text';
+  startMs: number | null; // Relative to the start of the whole session
+  offsetMs: number | null; // Relative to the start of the lap's audio
+  speaker: string | null;
+  text: string; // Content without the timestamp and speaker prefix
+  parts: TranscriptPart[];
+  marker: MarkerType | null; // The (first) marker on a 'marker' line
+  raw: string; // The original line, verbatim
+}
+
+export interface TranscriptLap {
+  index: number;
+  startMs: number;
+  endMs: number | null;
+  header: string | null; // The "--- LAP n ---" line, if there was one
+  segments: TranscriptSegment[];
+}
+
+// Parses "mm:ss", "hh:mm:ss" and either with fractional seconds into milliseconds.
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().replace(',', '.').split(':');
+  if (parts.length < 2 || parts.length > 3) return null;
+  const numbers = parts.map(Number);
+  if (numbers.some(n => isNaN(n) || n < 0)) return null;
+  const seconds = numbers.reduce((total, n) => total * 60 + n, 0);
+  return Math.round(seconds * 1000);
+}
+
+export function parseParts(text: string): TranscriptPart[] {
+  const parts: TranscriptPart[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const before = text.slice(lastIndex, match.index);
+    if (before.trim()) parts.push({ type: 'words', text: before.trim() });
+    const name = match[1].toUpperCase();
+    if (name === 'PAUSE') parts.push({ type: 'pause', text: '' });
+    else if (name === 'UNCLEAR') parts.push({ type: 'unclear', text: '' });
+    else parts.push({ type: 'background', text: (match[2] || '').trim() });
+    lastIndex = match.index! + match[0].length;
+  }
+  const rest = text.slice(lastIndex);
+  if (rest.trim()) parts.push({ type: 'words', text: rest.trim() });
+  return parts;
+}
+
+// Splits a speaker label off the start of the text, if it has one.
+function splitSpeaker(text: string): { speaker: string | null; text: string } {
+  const match = text.match(SPEAKER_LABEL_PATTERN);
+  if (!match) return { speaker: null, text: text.trim() };
+  return { speaker: (match[1] ?? match[3]).trim(), text: (match[2] ?? match[4]).trim() };
+}
+
+function textSegment(line: string): TranscriptSegment {
+  return {
+    kind: 'text', startMs: null, offsetMs: null, speaker: null,
+    text: line, parts: [{ type: 'words', text: line }], marker: null, raw: line,
+  };
+}
+
+function parseLine(line: string, lapStartMs: number): TranscriptSegment {
+  const timed = line.match(SEGMENT_LINE_PATTERN);
+  if (timed) {
+    const offsetMs = parseTimestamp(timed[1]);
+    const { speaker, text } = splitSpeaker(timed[2]);
+    const parts = parseParts(text);
+    const onlyMarkers = parts.length > 0 && parts.every(part => part.type !== 'words');
+    return {
+      kind: onlyMarkers && !speaker ? 'marker' : 'speech',
+      startMs: offsetMs === null ? null : lapStartMs + offsetMs,
+      offsetMs,
+      speaker,
+      text,
+      parts,
+      marker: onlyMarkers ? parts[0].type as MarkerType : null,
+      raw: line,
+    };
+  }
+
+  // A speaker label without a timestamp, e.g. a wrapped turn "Speaker 2: words".
+  const spoken = splitSpeaker(line);
+  if (spoken.speaker && spoken.text) {
+    return {
+      kind: 'speech', startMs: null, offsetMs: null, speaker: spoken.speaker,
+      text: spoken.text, parts: parseParts(spoken.text), marker: null, raw: line,
+    };
+  }
+
+  const parts = parseParts(line);
+  if (parts.length > 0 && parts.every(part => part.type !== 'words')) {
+    return {
+      kind: 'marker', startMs: null, offsetMs: null, speaker: null,
+      text: line.trim(), parts, marker: parts[0].type as MarkerType, raw: line,
+    };
+  }
+  return textSegment(line);
+}
+
+/**
+ * Parses one lap's transcription output into segments. Times are shifted by
+ * the lap's start so they are relative to the whole session. Anything that
+ * does not look like the requested format is kept as plain 'text' segments.
+ */
+export function parseLapTranscript(text: string, lapStartMs: number): TranscriptSegment[] {
+  return text.split('\n').map(line => {
+    try {
+      return parseLine(line, lapStartMs);
+    } catch (error) {
+      console.warn('Could not parse transcript line, keeping it as text:', error);
+      return textSegment(line);
+    }
+  });
+}
+
+/**
+ * Splits the combined session transcript (as built from the "--- LAP n ---"
+ * headers) into laps and parses each of them. Lap timings come from the note's
+ * recorded laps when available, falling back to the header.
+ */
+export function parseSessionTranscript(rawText: string, laps: NoteLap[] = []): TranscriptLap[] {
+  const result: TranscriptLap[] = [];
+  let current: { index: number; header: string | null; startMs: number; endMs: number | null; lines: string[] } = {
+    index: 1, header: null, startMs: 0, endMs: null, lines: [],
+  };
+
+  const flush = () => {
+    if (current.header === null && current.lines.every(line => !line.trim())) return;
+    result.push({
+      index: current.index,
+      startMs: current.startMs,
+      endMs: current.endMs,
+      header: current.header,
+      segments: parseLapTranscript(current.lines.join('\n'), current.startMs),
+    });
+  };
+
+  for (const line of rawText.split('\n')) {
+    const header = line.match(LAP_HEADER_PATTERN);
+    if (!header) {
+      current.lines.push(line);
+      continue;
+    }
+    flush();
+    const index = Number(header[1]);
+    const lap = laps.find(l => l.index === index);
+    current = {
+      index,
+      header: line,
+      startMs: lap ? lap.startMs : parseTimestamp(header[2]) ?? 0,
+      endMs: lap && lap.endMs > lap.startMs ? lap.endMs : parseTimestamp(header[3]),
+      lines: [],
+    };
+  }
+  if (current.header === null) {
+    // Single-lap transcripts (uploads) have no header; use the note's lap timing.
+    const lap = laps.find(l => l.index === current.index);
+    if (lap && lap.endMs > lap.startMs) current.endMs = lap.endMs;
+  }
+  flush();
+  return result;
+}
+
+/**
+ * Sets the text of one lap in the combined session transcript, replacing the
+ * lap's existing text or inserting it in lap order. A null header means the
+ * transcript is a single headerless lap (uploads) and is replaced outright.
+ */
+export function replaceLapText(rawText: string, lapIndex: number, lapText: string, header: string | null): string {
+  if (header === null) return lapText;
+
+  const trimNewlines = (text: string) => text.replace(/^\n+|\n+$/g, '');
+  const headerPattern = new RegExp(LAP_HEADER_PATTERN.source, 'gm');
+  const matches = [...rawText.matchAll(headerPattern)];
+  const preamble = trimNewlines(matches.length > 0 ? rawText.slice(0, matches[0].index) : rawText);
+  const sections = matches.map((match, i) => ({
+    index: Number(match[1]),
+    header: match[0],
+    text: trimNewlines(rawText.slice(match.index! + match[0].length, matches[i + 1]?.index ?? rawText.length)),
+  }));
+
+  const existing = sections.find(section => section.index === lapIndex);
+  if (existing) {
+    existing.text = lapText;
+  } else {
+    const position = sections.findIndex(section => section.index > lapIndex);
+    sections.splice(position === -1 ? sections.length : position, 0, { index: lapIndex, header, text: lapText });
+  }
+  return preamble + sections.map(section => `\n\n${section.header}\n\n${section.text}`).join('');
+}
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Translation of polished notes, keeping their markdown structure intact.
+
+export function translationPrompt(markdown: string, languageName: string, strict = false): string {
+  return `Translate the following markdown note into ${languageName}.
+
+Keep the markdown structure exactly as it is: the same headings at the same levels, the same lists and numbering, task checkboxes with their state ("- [ ]" and "- [x]"), tables, block quotes, bold and italic text, links and blank lines. Translate only the human-readable text. Leave names, numbers, dates, URLs, timestamps and code unchanged.${strict ? '\nA previous attempt changed the structure. Every line of the note must map to exactly one line of the translation.' : ''}
+Output only the translated markdown, with no commentary before or after it.
+
+---
+
+${markdown}`;
+}
+
+/**
+ * The kind of each structural line (headings by level, list items, tasks by
+ * state, table rows, code fences, quotes), ignoring plain text. Translations
+ * must keep this sequence the same.
+ */
+export function markdownStructure(markdown: string): string[] {
+  const structure: string[] = [];
+  for (const line of markdown.split('\n')) {
+    const text = line.trim();
+    let match: RegExpMatchArray | null;
+    if ((match = text.match(/^(#{1,6})\s/))) {
+      structure.push(`h${match[1].length}`);
+    } else if ((match = text.match(/^[-*+]\s+\[([ xX])\]/))) {
+      structure.push(match[1] === ' ' ? 'task' : 'task-done');
+    } else if (/^[-*+]\s/.test(text)) {
+      structure.push('li');
+    } else if (/^\d+[.)]\s/.test(text)) {
+      structure.push('ol');
+    } else if (text.startsWith('|')) {
+      structure.push('table');
+    } else if (text.startsWith('```') || text.startsWith('~~~')) {
+      structure.push('code');
+    } else if (text.startsWith('>')) {
+      structure.push('quote');
+    }
+  }
+  return structure;
+}
+
+export function sameStructure(source: string, translation: string): boolean {
+  const a = markdownStructure(source);
+  const b = markdownStructure(translation);
+  return a.length === b.length && a.every((kind, i) => kind === b[i]);
+}
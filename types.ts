@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Mode definitions
+export type BuiltInModeID = 'journal' | 'action' | 'technical' | 'learning';
+
+// Built-in ids, or the generated id of a mode from the user's library.
+export type ModeID = BuiltInModeID | (string & {});
+
+export interface Mode {
+  id: ModeID;
+  name: string;
+  instructions: string;
+  builtIn?: boolean; // Built-in modes are read-only templates that can be cloned
+}
+
+// Why a lap was split automatically rather than with the lap button.
+export type AutoLapReason = 'silence' | 'max-length';
+
+export type InputLevelIssue = 'silence' | 'clipping';
+
+// A stretch of recording where the input was silent or clipping, in the
+// same session time as the lap it belongs to.
+export interface InputLevelEvent {
+  type: InputLevelIssue;
+  startMs: number;
+  endMs: number;
+}
+
+// A recorded (or uploaded) audio segment within a note. Times are offsets
+// from the start of the whole session, so laps can be laid end to end.
+export interface NoteLap {
+  index: number; // 1-based, matches the "--- LAP n ---" header
+  startMs: number;
+  endMs: number;
+  audioSize: number; // in bytes
+  mimeType: string;
+  transcriptionFailed?: boolean; // Queued for another transcription attempt
+  auto?: AutoLapReason; // Set when voice activity detection split the lap
+  inputEvents?: InputLevelEvent[]; // Silence or clipping noticed while recording
+  languages?: string[]; // ISO 639-1 codes the transcription detected, most used first
+}
+
+// One polished version of a note's transcript, produced with a given mode.
+// Usage is tracked per rendition; the note's totals include every run.
+export interface Rendition {
+  id: string;
+  modeId: ModeID;
+  markdown: string;
+  createdAt: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  partial?: boolean; // Generation was cancelled before it finished
+  language?: string; // Set on translations: ISO 639-1 code of the target language
+  sourceRenditionId?: string; // Set on translations: the rendition that was translated
+}
+
+// Where a note was recorded, typed in or taken from the browser's position.
+export interface NoteLocation {
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  source: 'manual' | 'geolocation';
+}
+
+export interface Note {
+  id: string;
+  rawTranscription: string;
+  polishedNote: string; // Markdown of the active rendition
+  timestamp: number;
+  timeZone: string | null; // IANA zone it was recorded in; null for notes saved before zones were stored
+  location: NoteLocation | null;
+  duration: number; // in ms
+  audioSize: number; // in bytes
+  codec: string | null;
+  sampleRate: number | null; // of the source audio, in Hz
+  channels: number | null;
+  modeId: ModeID;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  laps: NoteLap[];
+  renditions: Rendition[];
+  activeRenditionId: string | null;
+}
+
+export type UploadStatus = 'queued' | 'transcribing' | 'polishing' | 'done' | 'failed' | 'cancelled';
+
+// A file waiting in, or processed by, the batch upload queue.
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  modeId: ModeID; // The mode selected when the file was added
+  status: UploadStatus;
+  error: string | null;
+  noteId: string | null; // The note created for the file, once processing starts
+}
+
+// The recorder of one lap in a recording session. Each lap has its own, so
+// the next lap can start recording before the previous one has stopped.
+export interface RecordingSegment {
+  recorder: MediaRecorder;
+  lapIndex: number;
+  startMs: number;
+  endMs: number | null; // Set when the lap is split off or the session stops
+  auto: AutoLapReason | null;
+  chunks: Blob[];
+  stopped: Promise<void>; // Resolves once the lap has been handed on for transcription
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {AutoLapReason} from './types';
+
+export interface AutoLapSettings {
+  enabled: boolean;
+  minLapSeconds: number; // No split on silence before a lap is this long
+  maxLapSeconds: number; // A lap is always split at this length
+  splitSilenceSeconds: number; // How long a pause must be to split on it
+  autoStopSilenceSeconds: number; // Stop the session after this much silence; 0 turns it off
+  silenceThreshold: number; // RMS level (0-1) below which audio counts as silence
+}
+
+export const DEFAULT_AUTO_LAP_SETTINGS: AutoLapSettings = {
+  enabled: true,
+  minLapSeconds: 120,
+  maxLapSeconds: 600,
+  splitSilenceSeconds: 1.5,
+  autoStopSilenceSeconds: 0,
+  silenceThreshold: 0.02,
+};
+
+export type VoiceActivityAction = { type: 'split'; reason: AutoLapReason } | { type: 'stop' };
+
+/** RMS level (0-1) of the time-domain bytes an AnalyserNode returns. */
+export function timeDomainRms(samples: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = (samples[i] - 128) / 128;
+    sum += value * value;
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/**
+ * Decides when to split a lap or stop recording from a stream of audio level
+ * readings. Times are recording time, so pauses don't count as silence.
+ * Use one detector per session: silence carries over across lap splits.
+ */
+export class VoiceActivityDetector {
+  private silenceStartedMs: number | null = null;
+
+  constructor(private readonly settings: AutoLapSettings) {}
+
+  update(rms: number, sessionMs: number, lapMs: number): VoiceActivityAction | null {
+    const { settings } = this;
+    if (rms < settings.silenceThreshold) {
+      if (this.silenceStartedMs === null) this.silenceStartedMs = sessionMs;
+    } else {
+      this.silenceStartedMs = null;
+    }
+    const silenceMs = this.silenceStartedMs === null ? 0 : sessionMs - this.silenceStartedMs;
+
+    if (settings.autoStopSilenceSeconds > 0 && silenceMs >= settings.autoStopSilenceSeconds * 1000) {
+      return { type: 'stop' };
+    }
+    if (!settings.enabled) return null;
+    if (lapMs >= settings.maxLapSeconds * 1000) {
+      return { type: 'split', reason: 'max-length' };
+    }
+    if (lapMs >= settings.minLapSeconds * 1000 && silenceMs >= settings.splitSilenceSeconds * 1000) {
+      return { type: 'split', reason: 'silence' };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {createZip} from './zip';
+
+// Reads the entries back through the central directory, as an unzip tool would.
+async function readZip(blob: Blob): Promise<Array<{ name: string; crc: number; data: string }>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({ name, crc, data: decoder.decode(bytes.subarray(dataStart, dataStart + size)) });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('stores each entry where the central directory points to it', async () => {
+    const zip = createZip([
+      { name: 'a.md', content: 'hello' },
+      { name: 'notatki/żółw.md', content: 'zażółć gęślą jaźń' },
+    ]);
+    const entries = await readZip(zip);
+    expect(entries.map(entry => [entry.name, entry.data])).toEqual([
+      ['a.md', 'hello'],
+      ['notatki/żółw.md', 'zażółć gęślą jaźń'],
+    ]);
+    expect(zip.type).toBe('application/zip');
+  });
+
+  it('writes the standard CRC-32 of the content', async () => {
+    const [entry] = await readZip(createZip([{ name: 'a.txt', content: 'hello' }]));
+    expect(entry.crc).toBe(0x3610a686);
+  });
+
+  it('writes an empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([]);
+  });
+});